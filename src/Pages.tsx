@@ -19,6 +19,9 @@ const Pages: React.FC<Props> = ({classes}) => {
             <Router>
                 <Switch>
                     <Route exact path='/' component={Main}/>
+                    <Route exact path='/net/:name' component={Main}/>
+                    <Route exact path='/:kind(block|attestation|validator)/:id' component={Main}/>
+                    <Route exact path='/net/:name/:kind(block|attestation|validator)/:id' component={Main}/>
                     <Route exact strict={false} path='/about' component={About}/>
                 </Switch>
             </Router>
@@ -0,0 +1,119 @@
+import {HeadSummary, MemoryDiff} from "./protocol";
+import {ChainStore} from "./store";
+import {AlertEngine, defaultAlertSettings} from "./alerts";
+
+const headSummary = (headBlock: number, slot: number, slashed: number, target: number): HeadSummary => ({
+    headBlock,
+    slot,
+    proposerIndex: 0,
+    validatorCounts: {
+        total: 100, active: 100, slashed, eligible: 100,
+        nonEligible: 0, exiting: 0, withdrawable: 0,
+    },
+    totalStaked: 100,
+    avgBalance: 32e9,
+    depositIndex: 100,
+    eth1Data: {depositRoot: "0x00", depositCount: 100, blockHash: "0x00"},
+    previousFFG: {source: 0, target: 0, head: 0},
+    currentFFG: {source: target, target, head: target},
+});
+
+// a diff with the head at the slot, and a block only if withBlock is set
+const diffAt = (diffIndex: number, slot: number, withBlock: boolean, slashed = 0, target = 100): MemoryDiff => ({
+    diffIndex,
+    previous: {head: diffIndex, finalized: 0, blocks: diffIndex, attestations: 0, latestVotes: 0},
+    head: [headSummary(diffIndex, slot, slashed, target)],
+    finalized: [],
+    blocks: withBlock ? [{selfPtr: diffIndex, htr: "0x0" + diffIndex, slot, parent: diffIndex - 1}] : [],
+    attestations: [],
+    latestVotes: [],
+});
+
+const rules = (...ids: Array<string>) => ({
+    ...defaultAlertSettings,
+    enabled: {
+        noBlock: ids.includes('noBlock'), finalityStalled: ids.includes('finalityStalled'),
+        slashed: ids.includes('slashed'), participation: ids.includes('participation'),
+        disconnected: ids.includes('disconnected'),
+    },
+});
+
+it('alerts once when blocks stop, and again after they resumed and stopped', () => {
+    const store = new ChainStore();
+    const engine = new AlertEngine({...rules('noBlock'), noBlockSlots: 2});
+    store.applyDiff(diffAt(0, 1, true));
+    expect(engine.evaluate(store)).toEqual([]);
+    store.applyDiff(diffAt(1, 3, false));
+    const alerts = engine.evaluate(store);
+    expect(alerts.map(a => a.rule)).toEqual(['noBlock']);
+    store.applyDiff(diffAt(2, 4, false));
+    expect(engine.evaluate(store)).toEqual([]);
+    store.applyDiff(diffAt(3, 5, true));
+    expect(engine.evaluate(store)).toEqual([]);
+    store.applyDiff(diffAt(4, 7, false));
+    expect(engine.evaluate(store).length).toBe(1);
+    expect(engine.history.length).toBe(2);
+});
+
+it('alerts when no block arrives for too long, also when the stream stalls', () => {
+    const store = new ChainStore();
+    const engine = new AlertEngine({...rules('noBlock'), noBlockSlots: 3});
+    engine.slotTime = 1000;
+    engine.setConnection('open', 0);
+    store.applyDiff(diffAt(0, 1, true));
+    expect(engine.evaluate(store, 0)).toEqual([]);
+    // no more diffs at all
+    expect(engine.evaluate(store, 2500)).toEqual([]);
+    expect(engine.evaluate(store, 3000).map(a => a.message)).toEqual(["No new block for 3 slots, since slot 1"]);
+    // a new block clears it
+    store.applyDiff(diffAt(1, 2, true));
+    expect(engine.evaluate(store, 3500)).toEqual([]);
+    expect(engine.evaluate(store, 5000)).toEqual([]);
+
+    // a replay only counts the slots of its head
+    engine.setConnection('idle', 6000);
+    expect(engine.evaluate(store, 60000)).toEqual([]);
+});
+
+it('alerts when finality lags more than the threshold', () => {
+    const store = new ChainStore();
+    const engine = new AlertEngine({...rules('finalityStalled'), finalityEpochs: 2});
+    store.applyDiff({...diffAt(0, 1, true), finalized: [0]});
+    store.applyDiff(diffAt(1, 32 * 2 + 1, true));
+    expect(engine.evaluate(store)).toEqual([]);
+    store.applyDiff(diffAt(2, 32 * 3 + 1, true));
+    expect(engine.evaluate(store).map(a => a.message)).toEqual(["Finality is 3 epochs behind, at epoch 0"]);
+});
+
+it('alerts on every increase of the slashed count', () => {
+    const store = new ChainStore();
+    const engine = new AlertEngine(rules('slashed'));
+    store.applyDiff(diffAt(0, 1, true, 3));
+    // the first count is the baseline
+    expect(engine.evaluate(store)).toEqual([]);
+    store.applyDiff(diffAt(1, 2, true, 5));
+    expect(engine.evaluate(store).map(a => a.message)).toEqual(["2 more validators slashed, 5 in total"]);
+    store.applyDiff(diffAt(2, 3, true, 6));
+    expect(engine.evaluate(store).length).toBe(1);
+});
+
+it('checks participation late in the epoch', () => {
+    const store = new ChainStore();
+    const engine = new AlertEngine({...rules('participation'), participationPercent: 50});
+    store.applyDiff(diffAt(0, 2, true, 0, 10));
+    expect(engine.evaluate(store)).toEqual([]);
+    store.applyDiff(diffAt(1, 30, true, 0, 40));
+    expect(engine.evaluate(store).map(a => a.rule)).toEqual(['participation']);
+});
+
+it('alerts when disconnected for too long', () => {
+    const store = new ChainStore();
+    const engine = new AlertEngine({...rules('disconnected'), disconnectedSeconds: 10});
+    engine.setConnection('closed', 1000);
+    expect(engine.evaluate(store, 5000)).toEqual([]);
+    expect(engine.evaluate(store, 11000).map(a => a.rule)).toEqual(['disconnected']);
+    engine.setConnection('open', 12000);
+    expect(engine.evaluate(store, 12000)).toEqual([]);
+    engine.setConnection('idle', 13000);
+    expect(engine.evaluate(store, 60000)).toEqual([]);
+});
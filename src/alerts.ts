@@ -0,0 +1,185 @@
+import {Slot} from "./protocol";
+import {ChainStore} from "./store";
+import {SECONDS_PER_SLOT, SLOTS_PER_EPOCH, finalityStatus} from "./chain";
+
+export type AlertRuleId = 'noBlock' | 'finalityStalled' | 'slashed' | 'participation' | 'disconnected';
+
+export type AlertSettings = {
+    enabled: Record<AlertRuleId, boolean>;
+    // slots since the newest block, by the head or by the time since a block arrived
+    noBlockSlots: number;
+    // epochs between the head and the finalized epoch, alerts when the lag is more than this
+    finalityEpochs: number;
+    // minimum FFG target participation of the current epoch, in percent
+    participationPercent: number;
+    // seconds without a connection
+    disconnectedSeconds: number;
+    // also show alerts as browser notifications
+    notifications: boolean;
+}
+
+export const defaultAlertSettings: AlertSettings = {
+    enabled: {noBlock: true, finalityStalled: true, slashed: true, participation: true, disconnected: true},
+    noBlockSlots: 4,
+    finalityEpochs: 4,
+    participationPercent: 66,
+    disconnectedSeconds: 30,
+    notifications: false,
+};
+
+export type Alert = {
+    id: number;
+    rule: AlertRuleId;
+    // ms since unix epoch
+    time: number;
+    message: string;
+}
+
+// 'idle' when no connection is expected, e.g. while replaying a recording.
+export type ConnectionState = 'open' | 'closed' | 'idle';
+
+export type AlertRule = {
+    id: AlertRuleId;
+    label: string;
+    // setting that holds the threshold of the rule, if any
+    threshold?: 'noBlockSlots' | 'finalityEpochs' | 'participationPercent' | 'disconnectedSeconds';
+    thresholdLabel?: string;
+}
+
+export const alertRules: Array<AlertRule> = [
+    {id: 'noBlock', label: "No new block", threshold: 'noBlockSlots', thresholdLabel: "slots"},
+    {id: 'finalityStalled', label: "Finality stalled", threshold: 'finalityEpochs', thresholdLabel: "epochs"},
+    {id: 'slashed', label: "Validators slashed"},
+    {id: 'participation', label: "Low participation", threshold: 'participationPercent', thresholdLabel: "% target"},
+    {id: 'disconnected', label: "Disconnected", threshold: 'disconnectedSeconds', thresholdLabel: "seconds"},
+];
+
+// keep this many alerts in the history
+const MAX_ALERT_HISTORY = 100;
+
+// Participation of the current epoch only means something once most of its slots have been attested,
+// so it is checked in the last quarter of the epoch.
+const PARTICIPATION_CHECK_FROM = Math.floor(SLOTS_PER_EPOCH * 3 / 4);
+
+// Evaluates the alert rules. A rule alerts once when its condition starts to hold,
+// and again only after the condition cleared. Slashings alert on every increase.
+export class AlertEngine {
+    settings: AlertSettings;
+    // newest first
+    history: Array<Alert> = [];
+
+    private nextId: number = 0;
+    // rules whose condition currently holds
+    private firing: Partial<Record<AlertRuleId, boolean>> = {};
+    private lastSlashed: number | null = null;
+    private connection: ConnectionState = 'idle';
+    private disconnectedSince: number = 0;
+    // slot of the newest block, and the time it arrived
+    private newestBlock: Slot | null = null;
+    private newestBlockAt: number = 0;
+
+    // ms per slot of the chain, the simulator runs faster
+    slotTime: number = SECONDS_PER_SLOT * 1000;
+
+    constructor(settings: AlertSettings) {
+        this.settings = settings;
+    }
+
+    // forget the chain state, e.g. when switching networks. The history is kept.
+    resetChain() {
+        this.lastSlashed = null;
+        this.firing = {};
+        this.newestBlock = null;
+    }
+
+    setConnection(state: ConnectionState, now: number = Date.now()) {
+        if (state === 'closed' && this.connection !== 'closed') {
+            this.disconnectedSince = now;
+        }
+        this.connection = state;
+    }
+
+    // Check all enabled rules against the store. Returns the new alerts, which are also added to the history.
+    evaluate(store: ChainStore, now: number = Date.now()): Array<Alert> {
+        for (let b of Object.values(store.blocks)) {
+            if (this.newestBlock === null || b.slot > this.newestBlock) {
+                this.newestBlock = b.slot;
+                this.newestBlockAt = now;
+            }
+        }
+        const out: Array<Alert> = [];
+        for (let rule of alertRules) {
+            const message = this.settings.enabled[rule.id] ? this.check(rule.id, store, now) : null;
+            if (message === null) {
+                this.firing[rule.id] = false;
+            } else if (!this.firing[rule.id] || rule.id === 'slashed') {
+                this.firing[rule.id] = true;
+                out.push({id: this.nextId++, rule: rule.id, time: now, message});
+            }
+        }
+        // the slashed count is tracked even when the rule is disabled, to not alert on old slashings once enabled
+        const head = store.latestHead();
+        if (head !== null) {
+            this.lastSlashed = head.validatorCounts.slashed;
+        }
+        if (out.length > 0) {
+            this.history = out.slice().reverse().concat(this.history).slice(0, MAX_ALERT_HISTORY);
+        }
+        return out;
+    }
+
+    clearHistory() {
+        this.history = [];
+    }
+
+    // the alert message if the condition of the rule holds, null otherwise
+    private check(rule: AlertRuleId, store: ChainStore, now: number): string | null {
+        const s = this.settings;
+        if (rule === 'disconnected') {
+            const seconds = Math.floor((now - this.disconnectedSince) / 1000);
+            return this.connection === 'closed' && seconds >= s.disconnectedSeconds
+                ? `No connection for ${seconds} seconds` : null;
+        }
+        const head = store.latestHead();
+        if (head === null) {
+            return null;
+        }
+        switch (rule) {
+            case 'noBlock': {
+                const newest = this.newestBlock;
+                if (newest === null) {
+                    return null;
+                }
+                // the head may move on without blocks, or the whole stream may stall and only the time tells.
+                // a replay has no live timing, there only the head counts.
+                const waited = this.connection === 'idle' ? 0 : Math.floor((now - this.newestBlockAt) / this.slotTime);
+                const missed = Math.max(head.slot - newest, waited);
+                return missed >= s.noBlockSlots ? `No new block for ${missed} slots, since slot ${newest}` : null;
+            }
+            case 'finalityStalled': {
+                const status = finalityStatus(store);
+                if (status === null || status.lag === null) {
+                    return null;
+                }
+                return status.lag > s.finalityEpochs
+                    ? `Finality is ${status.lag} epochs behind, at epoch ${status.finalizedEpoch}` : null;
+            }
+            case 'slashed': {
+                const slashed = head.validatorCounts.slashed;
+                if (this.lastSlashed === null || slashed <= this.lastSlashed) {
+                    return null;
+                }
+                return `${slashed - this.lastSlashed} more validators slashed, ${slashed} in total`;
+            }
+            case 'participation': {
+                if (head.slot % SLOTS_PER_EPOCH < PARTICIPATION_CHECK_FROM || head.totalStaked <= 0) {
+                    return null;
+                }
+                const percent = head.currentFFG.target / head.totalStaked * 100;
+                return percent < s.participationPercent
+                    ? `Current epoch target participation is ${percent.toFixed(1)}%` : null;
+            }
+        }
+        return null;
+    }
+}
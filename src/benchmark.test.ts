@@ -0,0 +1,28 @@
+import {ChainStore} from "./store";
+import {headlessStep, runBenchmark} from "./benchmark";
+
+it('times a step per generated slot', () => {
+    const store = new ChainStore();
+    let t = 0;
+    const res = runBenchmark({validators: 1000, slots: 20, committeesPerSlot: 8}, headlessStep(store), () => t++);
+    expect(res.slots).toBe(20);
+    expect(res.validators).toBe(1000);
+    expect(store.valCount).toBe(1000);
+    // the fake clock ticks once per call, so every step takes 1ms
+    expect(res.totalMs).toBe(20);
+    expect(res.meanMs).toBe(1);
+    expect(res.p95Ms).toBe(1);
+    expect(res.maxMs).toBe(1);
+    // the simulated chain went through the whole pipeline
+    expect(store.latestHead()).not.toBeNull();
+    expect(Object.keys(store.blocks).length).toBeGreaterThan(0);
+});
+
+it('generates the same stream for the same seed', () => {
+    const stores = [new ChainStore(), new ChainStore()];
+    for (let store of stores) {
+        runBenchmark({seed: 7, validators: 500, slots: 12, committeesPerSlot: 4}, headlessStep(store), () => 0);
+    }
+    expect(stores[1].blocks).toEqual(stores[0].blocks);
+    expect(stores[1].attestations).toEqual(stores[0].attestations);
+});
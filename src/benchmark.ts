@@ -0,0 +1,76 @@
+import {MemoryDiff} from "./protocol";
+import {ChainStore} from "./store";
+import {ChainSimulator} from "./simulator";
+import {computeForkChoice} from "./forkchoice";
+import {layoutDag} from "./layout";
+import {ValidatorColors} from "./validatorColors";
+
+// query param that runs the rendering benchmark instead of connecting, the value is the number of validators.
+export const BENCHMARK_PARAM = "bench";
+
+export type BenchmarkOptions = {
+    // seed of the simulator, the same options generate the same diffs
+    seed: number;
+    validators: number;
+    slots: number;
+    committeesPerSlot: number;
+}
+
+export const defaultBenchmarkOptions: BenchmarkOptions = {
+    seed: 1,
+    validators: 100000,
+    slots: 256,
+    committeesPerSlot: 64,
+};
+
+export type BenchmarkResult = {
+    slots: number;
+    validators: number;
+    // time spent in the steps, in ms
+    totalMs: number;
+    meanMs: number;
+    p95Ms: number;
+    maxMs: number;
+}
+
+// Feed generated diffs to the step function, one per slot, and time each step.
+// Generating the diffs is not part of the measurement.
+export const runBenchmark = (opts: Partial<BenchmarkOptions>, step: (diff: MemoryDiff) => void,
+                             now: () => number = () => performance.now()): BenchmarkResult => {
+    const o = {...defaultBenchmarkOptions, ...opts};
+    const sim = new ChainSimulator({
+        seed: o.seed,
+        initialValidators: o.validators,
+        validatorsPerEpoch: 0,
+        committeesPerSlot: o.committeesPerSlot,
+    });
+    const times: Array<number> = [];
+    for (let i = 0; i < o.slots; i++) {
+        const diff = sim.next();
+        const start = now();
+        step(diff);
+        times.push(now() - start);
+    }
+    const sorted = times.slice().sort((a, b) => a - b);
+    const totalMs = times.reduce((sum, t) => sum + t, 0);
+    return {
+        slots: o.slots,
+        validators: sim.valCount,
+        totalMs,
+        meanMs: times.length > 0 ? totalMs / times.length : 0,
+        p95Ms: sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))] : 0,
+        maxMs: sorted.length > 0 ? sorted[sorted.length - 1] : 0,
+    };
+};
+
+// A step that does the work of an update without a renderer:
+// apply the diff, compute the fork choice and layout, and color every validator.
+export const headlessStep = (store: ChainStore) => (diff: MemoryDiff) => {
+    store.applyDiff(diff);
+    computeForkChoice(store);
+    layoutDag(store);
+    const colors = new ValidatorColors(store, 'correctness');
+    for (let vi = 0; vi < store.valCount; vi++) {
+        colors.color(vi);
+    }
+};
@@ -0,0 +1,133 @@
+import {Ok as JsonOk} from "ts.data.json";
+import {MemoryDiff, Snapshot, decMemoryDiff, decSnapshot} from "./protocol";
+import {BinaryKind, SectionTag, decodeBinaryMessage, encodeBinaryMessage} from "./binary";
+
+const root = (b: number): string => "0x" + ("0" + b.toString(16)).slice(-2).repeat(32);
+
+const diff: MemoryDiff = {
+    diffIndex: 1234,
+    previous: {head: 1, finalized: 2, blocks: 3, attestations: 4, latestVotes: 5},
+    head: [{
+        headBlock: 3,
+        slot: 100,
+        proposerIndex: 42,
+        validatorCounts: {
+            total: 16384, active: 16000, slashed: 2, eligible: 15990,
+            nonEligible: 394, exiting: 10, withdrawable: 1,
+        },
+        totalStaked: 16384 * 32e9,
+        avgBalance: 31.9e9,
+        depositIndex: 16384,
+        eth1Data: {depositRoot: root(0xab), depositCount: 16384, blockHash: root(0x01)},
+        previousFFG: {source: 500e12, target: 490e12, head: 480e12},
+        currentFFG: {source: 100e12, target: 90e12, head: 80e12},
+    }],
+    finalized: [0, 1],
+    blocks: [
+        {selfPtr: 2, htr: root(0x02), slot: 99, parent: 1},
+        {selfPtr: 3, htr: root(0xff), slot: 100, parent: 2},
+    ],
+    attestations: [
+        {selfPtr: 7, slot: 99, commIndex: 3, head: 2, target: 1, source: 0},
+    ],
+    latestVotes: [
+        {validatorIndex: 12, attestationPtr: 7},
+        {validatorIndex: 16383, attestationPtr: 7},
+    ],
+};
+
+const snapshot: Snapshot = {
+    type: 'snapshot',
+    diffIndex: diff.diffIndex,
+    state: diff.previous,
+    head: diff.head,
+    finalized: diff.finalized,
+    blocks: diff.blocks,
+    attestations: diff.attestations,
+    latestVotes: diff.latestVotes,
+};
+
+it('decodes a memory diff from binary and JSON to the same value', () => {
+    const jsonRes = decMemoryDiff.decode(JSON.parse(JSON.stringify(diff)));
+    expect(jsonRes).toBeInstanceOf(JsonOk);
+    const fromJson = (jsonRes as JsonOk<MemoryDiff>).value;
+
+    const fromBinary = decodeBinaryMessage(encodeBinaryMessage({kind: BinaryKind.Diff, diff}));
+    expect(fromBinary).toEqual({kind: BinaryKind.Diff, diff: fromJson});
+    expect(fromJson).toEqual(diff);
+});
+
+it('decodes a snapshot from binary and JSON to the same value', () => {
+    const jsonRes = decSnapshot.decode(JSON.parse(JSON.stringify(snapshot)));
+    expect(jsonRes).toBeInstanceOf(JsonOk);
+    const fromJson = (jsonRes as JsonOk<Snapshot>).value;
+
+    const fromBinary = decodeBinaryMessage(encodeBinaryMessage({kind: BinaryKind.Snapshot, snapshot}));
+    expect(fromBinary).toEqual({kind: BinaryKind.Snapshot, snapshot: fromJson});
+});
+
+it('encodes smaller than JSON', () => {
+    const bin = encodeBinaryMessage({kind: BinaryKind.Diff, diff});
+    expect(bin.byteLength).toBeLessThan(JSON.stringify(diff).length);
+});
+
+// the message, followed by the raw bytes
+const append = (buf: ArrayBuffer, ...bytes: Array<number>): ArrayBuffer => {
+    const out = new Uint8Array(buf.byteLength + bytes.length);
+    out.set(new Uint8Array(buf));
+    out.set(bytes, buf.byteLength);
+    return out.buffer;
+};
+
+// an optional section with the tag, the little-endian length and the contents
+const section = (tag: number, contents: Array<number>): Array<number> =>
+    [tag, contents.length & 0xff, (contents.length >> 8) & 0xff, 0, 0, ...contents];
+
+it('rejects malformed messages', () => {
+    const bin = encodeBinaryMessage({kind: BinaryKind.Diff, diff});
+    expect(() => decodeBinaryMessage(bin.slice(0, bin.byteLength - 1))).toThrow(/unexpected end/);
+    // a section header that is cut off, and a section that is longer than the message
+    expect(() => decodeBinaryMessage(append(bin, SectionTag.Validators, 4, 0))).toThrow(/unexpected end/);
+    expect(() => decodeBinaryMessage(append(bin, 9, 8, 0, 0, 0, 1, 2))).toThrow(/unexpected end/);
+    // a validators section that is shorter than its list
+    const validator = new Array(21).fill(0);
+    expect(() => decodeBinaryMessage(append(bin, ...section(SectionTag.Validators, [1, 0, 0, 0]), ...validator)))
+        .toThrow(/longer than its length/);
+    expect(() => decodeBinaryMessage(new Uint8Array([9]).buffer)).toThrow(/unknown binary message kind/);
+});
+
+it('skips sections and section fields of a newer protocol version', () => {
+    const validators = [{validatorIndex: 12, status: 'active' as const, effectiveBalance: 32e9, balance: 32.01e9}];
+    const bin = encodeBinaryMessage({kind: BinaryKind.Diff, diff: {...diff, validators}});
+    const validatorsAt = encodeBinaryMessage({kind: BinaryKind.Diff, diff}).byteLength;
+    const known = Array.from(new Uint8Array(bin.slice(validatorsAt + 5)));
+
+    // an unknown section before and after the known one
+    const unknownSections = append(encodeBinaryMessage({kind: BinaryKind.Diff, diff}),
+        ...section(200, [1, 2, 3, 4, 5, 6, 7, 8]), ...section(SectionTag.Validators, known), ...section(7, []));
+    expect(decodeBinaryMessage(unknownSections)).toEqual({kind: BinaryKind.Diff, diff: {...diff, validators}});
+
+    // a known section with new fields at its end
+    const longerSection = append(encodeBinaryMessage({kind: BinaryKind.Diff, diff}),
+        ...section(SectionTag.Validators, [...known, 0xaa, 0xbb, 0xcc]));
+    expect(decodeBinaryMessage(longerSection)).toEqual({kind: BinaryKind.Diff, diff: {...diff, validators}});
+
+    // only unknown sections: nothing is added to the diff
+    const onlyUnknown = append(encodeBinaryMessage({kind: BinaryKind.Diff, diff}), ...section(9, [0, 0, 0, 0, 0, 0, 0, 0]));
+    expect(decodeBinaryMessage(onlyUnknown)).toEqual({kind: BinaryKind.Diff, diff});
+});
+
+it('decodes the optional validators section', () => {
+    const withValidators: MemoryDiff = {...diff, validators: [
+        {validatorIndex: 12, status: 'active', effectiveBalance: 32e9, balance: 32.01e9},
+        {validatorIndex: 13, status: 'slashed', effectiveBalance: 31e9, balance: 31.2e9},
+    ]};
+    const jsonRes = decMemoryDiff.decode(JSON.parse(JSON.stringify(withValidators)));
+    expect((jsonRes as JsonOk<MemoryDiff>).value).toEqual(withValidators);
+    const fromBinary = decodeBinaryMessage(encodeBinaryMessage({kind: BinaryKind.Diff, diff: withValidators}));
+    expect(fromBinary).toEqual({kind: BinaryKind.Diff, diff: withValidators});
+
+    const bad = JSON.parse(JSON.stringify(withValidators));
+    bad.validators[0].status = 'sleeping';
+    expect(decMemoryDiff.decode(bad)).not.toBeInstanceOf(JsonOk);
+});
@@ -0,0 +1,426 @@
+import {
+    AttestationSummary, BlockSummary, Eth1Data, FFG, HeadSummary, MemoryDiff, MemoryState, Root, Snapshot,
+    ValidatorCounts, ValidatorSummary, VoteSummary, validatorStatuses
+} from "./protocol";
+
+// WebSocket subprotocols, in order of preference. The server picks one, the client decodes by message type:
+// binary frames carry the binary encoding, text frames carry JSON.
+export const BINARY_PROTOCOL = "eth2wtf-bin";
+export const JSON_PROTOCOL = "eth2wtf-json";
+export const SUBPROTOCOLS = [BINARY_PROTOCOL, JSON_PROTOCOL];
+
+// First byte of every binary message
+export enum BinaryKind {
+    Diff = 0,
+    Snapshot = 1,
+}
+
+export type BinaryMessage = {kind: BinaryKind.Diff, diff: MemoryDiff} | {kind: BinaryKind.Snapshot, snapshot: Snapshot};
+
+// The encoding is little-endian. Pointers, slots, indices and counts are uint32,
+// gwei amounts are float64 (they exceed 32 bits, but stay below 2**53), roots are 32 raw bytes.
+// Lists are prefixed with their uint32 length.
+// Optional sections follow the fixed part of a message, each as a uint8 tag, the uint32 byte length of its
+// contents, and the contents. Servers leave out the sections they do not have, and clients skip the tags
+// they do not know, so a newer server can add sections (and fields at the end of a section) without breaking them.
+
+export enum SectionTag {
+    Validators = 1,
+}
+
+const ROOT_SIZE = 32;
+
+export class BinaryReader {
+    private view: DataView;
+    private offset: number = 0;
+
+    constructor(buf: ArrayBuffer) {
+        this.view = new DataView(buf);
+    }
+
+    private need(n: number) {
+        if (this.offset + n > this.view.byteLength) {
+            throw new Error(`unexpected end of message at byte ${this.offset}, need ${n} more`);
+        }
+    }
+
+    u8(): number {
+        this.need(1);
+        const v = this.view.getUint8(this.offset);
+        this.offset += 1;
+        return v;
+    }
+
+    u32(): number {
+        this.need(4);
+        const v = this.view.getUint32(this.offset, true);
+        this.offset += 4;
+        return v;
+    }
+
+    f64(): number {
+        this.need(8);
+        const v = this.view.getFloat64(this.offset, true);
+        this.offset += 8;
+        return v;
+    }
+
+    root(): Root {
+        this.need(ROOT_SIZE);
+        let out = "0x";
+        for (let i = 0; i < ROOT_SIZE; i++) {
+            out += ("0" + this.view.getUint8(this.offset + i).toString(16)).slice(-2);
+        }
+        this.offset += ROOT_SIZE;
+        return out;
+    }
+
+    list<T>(item: (r: BinaryReader) => T): Array<T> {
+        const count = this.u32();
+        const out: Array<T> = [];
+        for (let i = 0; i < count; i++) {
+            out.push(item(this));
+        }
+        return out;
+    }
+
+    remaining(): number {
+        return this.view.byteLength - this.offset;
+    }
+
+    // Read the optional sections up to the end of the message, the callback reads the contents of the known tags.
+    // Unknown sections, and the unknown rest of a known one, are skipped.
+    sections(read: (tag: number) => void) {
+        while (this.remaining() > 0) {
+            const tag = this.u8();
+            const length = this.u32();
+            this.need(length);
+            const end = this.offset + length;
+            read(tag);
+            if (this.offset > end) {
+                throw new Error(`section ${tag} is longer than its length of ${length} bytes, at byte ${end}`);
+            }
+            this.offset = end;
+        }
+    }
+
+    done() {
+        if (this.offset !== this.view.byteLength) {
+            throw new Error(`${this.view.byteLength - this.offset} unexpected trailing bytes`);
+        }
+    }
+}
+
+export class BinaryWriter {
+    private buf: ArrayBuffer = new ArrayBuffer(1024);
+    private view: DataView = new DataView(this.buf);
+    private offset: number = 0;
+
+    private grow(n: number) {
+        if (this.offset + n <= this.buf.byteLength) {
+            return;
+        }
+        const next = new ArrayBuffer(Math.max(this.buf.byteLength * 2, this.offset + n));
+        new Uint8Array(next).set(new Uint8Array(this.buf));
+        this.buf = next;
+        this.view = new DataView(next);
+    }
+
+    u8(v: number) {
+        this.grow(1);
+        this.view.setUint8(this.offset, v);
+        this.offset += 1;
+    }
+
+    u32(v: number) {
+        this.grow(4);
+        this.view.setUint32(this.offset, v, true);
+        this.offset += 4;
+    }
+
+    f64(v: number) {
+        this.grow(8);
+        this.view.setFloat64(this.offset, v, true);
+        this.offset += 8;
+    }
+
+    root(v: Root) {
+        const hex = v.startsWith("0x") ? v.slice(2) : v;
+        if (hex.length !== ROOT_SIZE * 2) {
+            throw new Error(`invalid root: ${v}`);
+        }
+        this.grow(ROOT_SIZE);
+        for (let i = 0; i < ROOT_SIZE; i++) {
+            this.view.setUint8(this.offset + i, parseInt(hex.substr(i * 2, 2), 16));
+        }
+        this.offset += ROOT_SIZE;
+    }
+
+    list<T>(items: Array<T>, item: (w: BinaryWriter, v: T) => void) {
+        this.u32(items.length);
+        for (let v of items) {
+            item(this, v);
+        }
+    }
+
+    // an optional section: the tag, and the length of the contents before the contents
+    section(tag: number, contents: (w: BinaryWriter) => void) {
+        this.u8(tag);
+        const lengthAt = this.offset;
+        this.u32(0);
+        contents(this);
+        this.view.setUint32(lengthAt, this.offset - lengthAt - 4, true);
+    }
+
+    finish(): ArrayBuffer {
+        return this.buf.slice(0, this.offset);
+    }
+}
+
+const readFFG = (r: BinaryReader): FFG => ({
+    source: r.f64(),
+    target: r.f64(),
+    head: r.f64(),
+});
+
+const writeFFG = (w: BinaryWriter, v: FFG) => {
+    w.f64(v.source);
+    w.f64(v.target);
+    w.f64(v.head);
+};
+
+const readValidatorCounts = (r: BinaryReader): ValidatorCounts => ({
+    total: r.u32(),
+    active: r.u32(),
+    slashed: r.u32(),
+    eligible: r.u32(),
+    nonEligible: r.u32(),
+    exiting: r.u32(),
+    withdrawable: r.u32(),
+});
+
+const writeValidatorCounts = (w: BinaryWriter, v: ValidatorCounts) => {
+    w.u32(v.total);
+    w.u32(v.active);
+    w.u32(v.slashed);
+    w.u32(v.eligible);
+    w.u32(v.nonEligible);
+    w.u32(v.exiting);
+    w.u32(v.withdrawable);
+};
+
+const readEth1Data = (r: BinaryReader): Eth1Data => ({
+    depositRoot: r.root(),
+    depositCount: r.u32(),
+    blockHash: r.root(),
+});
+
+const writeEth1Data = (w: BinaryWriter, v: Eth1Data) => {
+    w.root(v.depositRoot);
+    w.u32(v.depositCount);
+    w.root(v.blockHash);
+};
+
+const readHeadSummary = (r: BinaryReader): HeadSummary => ({
+    headBlock: r.u32(),
+    slot: r.u32(),
+    proposerIndex: r.u32(),
+    validatorCounts: readValidatorCounts(r),
+    totalStaked: r.f64(),
+    avgBalance: r.f64(),
+    depositIndex: r.u32(),
+    eth1Data: readEth1Data(r),
+    previousFFG: readFFG(r),
+    currentFFG: readFFG(r),
+});
+
+const writeHeadSummary = (w: BinaryWriter, v: HeadSummary) => {
+    w.u32(v.headBlock);
+    w.u32(v.slot);
+    w.u32(v.proposerIndex);
+    writeValidatorCounts(w, v.validatorCounts);
+    w.f64(v.totalStaked);
+    w.f64(v.avgBalance);
+    w.u32(v.depositIndex);
+    writeEth1Data(w, v.eth1Data);
+    writeFFG(w, v.previousFFG);
+    writeFFG(w, v.currentFFG);
+};
+
+const readBlockSummary = (r: BinaryReader): BlockSummary => ({
+    selfPtr: r.u32(),
+    htr: r.root(),
+    slot: r.u32(),
+    parent: r.u32(),
+});
+
+const writeBlockSummary = (w: BinaryWriter, v: BlockSummary) => {
+    w.u32(v.selfPtr);
+    w.root(v.htr);
+    w.u32(v.slot);
+    w.u32(v.parent);
+};
+
+const readAttestationSummary = (r: BinaryReader): AttestationSummary => ({
+    selfPtr: r.u32(),
+    slot: r.u32(),
+    commIndex: r.u32(),
+    head: r.u32(),
+    target: r.u32(),
+    source: r.u32(),
+});
+
+const writeAttestationSummary = (w: BinaryWriter, v: AttestationSummary) => {
+    w.u32(v.selfPtr);
+    w.u32(v.slot);
+    w.u32(v.commIndex);
+    w.u32(v.head);
+    w.u32(v.target);
+    w.u32(v.source);
+};
+
+const readVoteSummary = (r: BinaryReader): VoteSummary => ({
+    validatorIndex: r.u32(),
+    attestationPtr: r.u32(),
+});
+
+const writeVoteSummary = (w: BinaryWriter, v: VoteSummary) => {
+    w.u32(v.validatorIndex);
+    w.u32(v.attestationPtr);
+};
+
+const readValidatorSummary = (r: BinaryReader): ValidatorSummary => {
+    const validatorIndex = r.u32();
+    const code = r.u8();
+    if (code >= validatorStatuses.length) {
+        throw new Error(`unknown validator status: ${code}`);
+    }
+    return {
+        validatorIndex,
+        status: validatorStatuses[code],
+        effectiveBalance: r.f64(),
+        balance: r.f64(),
+    };
+};
+
+const writeValidatorSummary = (w: BinaryWriter, v: ValidatorSummary) => {
+    w.u32(v.validatorIndex);
+    w.u8(validatorStatuses.indexOf(v.status));
+    w.f64(v.effectiveBalance);
+    w.f64(v.balance);
+};
+
+const readMemoryState = (r: BinaryReader): MemoryState => ({
+    head: r.u32(),
+    finalized: r.u32(),
+    blocks: r.u32(),
+    attestations: r.u32(),
+    latestVotes: r.u32(),
+});
+
+const writeMemoryState = (w: BinaryWriter, v: MemoryState) => {
+    w.u32(v.head);
+    w.u32(v.finalized);
+    w.u32(v.blocks);
+    w.u32(v.attestations);
+    w.u32(v.latestVotes);
+};
+
+const readMemoryDiff = (r: BinaryReader): MemoryDiff => {
+    const diff: MemoryDiff = {
+        diffIndex: r.u32(),
+        previous: readMemoryState(r),
+        head: r.list(readHeadSummary),
+        finalized: r.list(r => r.u32()),
+        blocks: r.list(readBlockSummary),
+        attestations: r.list(readAttestationSummary),
+        latestVotes: r.list(readVoteSummary),
+    };
+    r.sections(tag => {
+        if (tag === SectionTag.Validators) {
+            diff.validators = r.list(readValidatorSummary);
+        }
+    });
+    return diff;
+};
+
+const writeMemoryDiff = (w: BinaryWriter, v: MemoryDiff) => {
+    w.u32(v.diffIndex);
+    writeMemoryState(w, v.previous);
+    w.list(v.head, writeHeadSummary);
+    w.list(v.finalized, (w, p) => w.u32(p));
+    w.list(v.blocks, writeBlockSummary);
+    w.list(v.attestations, writeAttestationSummary);
+    w.list(v.latestVotes, writeVoteSummary);
+    if (v.validators !== undefined) {
+        const validators = v.validators;
+        w.section(SectionTag.Validators, w => w.list(validators, writeValidatorSummary));
+    }
+};
+
+const readSnapshot = (r: BinaryReader): Snapshot => {
+    const snapshot: Snapshot = {
+        type: 'snapshot',
+        diffIndex: r.u32(),
+        state: readMemoryState(r),
+        head: r.list(readHeadSummary),
+        finalized: r.list(r => r.u32()),
+        blocks: r.list(readBlockSummary),
+        attestations: r.list(readAttestationSummary),
+        latestVotes: r.list(readVoteSummary),
+    };
+    r.sections(tag => {
+        if (tag === SectionTag.Validators) {
+            snapshot.validators = r.list(readValidatorSummary);
+        }
+    });
+    return snapshot;
+};
+
+const writeSnapshot = (w: BinaryWriter, v: Snapshot) => {
+    w.u32(v.diffIndex);
+    writeMemoryState(w, v.state);
+    w.list(v.head, writeHeadSummary);
+    w.list(v.finalized, (w, p) => w.u32(p));
+    w.list(v.blocks, writeBlockSummary);
+    w.list(v.attestations, writeAttestationSummary);
+    w.list(v.latestVotes, writeVoteSummary);
+    if (v.validators !== undefined) {
+        const validators = v.validators;
+        w.section(SectionTag.Validators, w => w.list(validators, writeValidatorSummary));
+    }
+};
+
+// Decodes a binary message. Throws an error if the message is malformed.
+// Sections added by a newer minor protocol version are ignored.
+export const decodeBinaryMessage = (buf: ArrayBuffer): BinaryMessage => {
+    const r = new BinaryReader(buf);
+    const kind = r.u8();
+    let msg: BinaryMessage;
+    switch (kind) {
+        case BinaryKind.Diff:
+            msg = {kind, diff: readMemoryDiff(r)};
+            break;
+        case BinaryKind.Snapshot:
+            msg = {kind, snapshot: readSnapshot(r)};
+            break;
+        default:
+            throw new Error(`unknown binary message kind: ${kind}`);
+    }
+    r.done();
+    return msg;
+};
+
+export const encodeBinaryMessage = (msg: BinaryMessage): ArrayBuffer => {
+    const w = new BinaryWriter();
+    w.u8(msg.kind);
+    switch (msg.kind) {
+        case BinaryKind.Diff:
+            writeMemoryDiff(w, msg.diff);
+            break;
+        case BinaryKind.Snapshot:
+            writeSnapshot(w, msg.snapshot);
+            break;
+    }
+    return w.finish();
+};
@@ -0,0 +1,97 @@
+import {BlockPtr, Epoch, FFG, Gwei, HeadSummary, Slot} from "./protocol";
+import {ChainStore} from "./store";
+
+export const SLOTS_PER_EPOCH = 32;
+
+export const SECONDS_PER_SLOT = 12;
+
+export const GWEI_PER_ETH = 1e9;
+
+export const slotToEpoch = (slot: Slot): Epoch => Math.floor(slot / SLOTS_PER_EPOCH);
+
+export const epochStartSlot = (epoch: Epoch): Slot => epoch * SLOTS_PER_EPOCH;
+
+export const formatGwei = (v: Gwei): string => (v / GWEI_PER_ETH).toLocaleString(undefined, {maximumFractionDigits: 3}) + " ETH";
+
+export type FFGParticipation = {
+    source: number;
+    target: number;
+    head: number;
+}
+
+// FFG vote weights as fractions of the total stake
+export const ffgParticipation = (ffg: FFG, totalStaked: Gwei): FFGParticipation => {
+    if (totalStaked <= 0) {
+        return {source: 0, target: 0, head: 0};
+    }
+    return {
+        source: ffg.source / totalStaked,
+        target: ffg.target / totalStaked,
+        head: ffg.head / totalStaked,
+    };
+};
+
+// The last head summary of an epoch before the epoch of the latest head, or null if there is none.
+export const previousEpochHead = (heads: Array<HeadSummary>): HeadSummary | null => {
+    if (heads.length === 0) {
+        return null;
+    }
+    const currentEpoch = slotToEpoch(heads[heads.length - 1].slot);
+    for (let i = heads.length - 2; i >= 0; i--) {
+        if (slotToEpoch(heads[i].slot) < currentEpoch) {
+            return heads[i];
+        }
+    }
+    return null;
+};
+
+// true if the weight is a supermajority (2/3 or more) of the total stake
+export const isSupermajority = (weight: Gwei, totalStaked: Gwei): boolean => totalStaked > 0 && weight * 3 >= totalStaked * 2;
+
+// Epochs that the client saw justified: the FFG target votes of the previous or current epoch
+// of a head summary reached a supermajority of the stake.
+export const justifiedEpochs = (heads: Array<HeadSummary>): Array<Epoch> => {
+    const justified: Record<Epoch, boolean> = {};
+    for (let h of heads) {
+        const epoch = slotToEpoch(h.slot);
+        if (epoch > 0 && isSupermajority(h.previousFFG.target, h.totalStaked)) {
+            justified[epoch - 1] = true;
+        }
+        if (isSupermajority(h.currentFFG.target, h.totalStaked)) {
+            justified[epoch] = true;
+        }
+    }
+    return Object.keys(justified).map(Number).sort((a, b) => a - b);
+};
+
+export type FinalityStatus = {
+    headSlot: Slot;
+    headEpoch: Epoch;
+    // epoch of the latest finalized checkpoint, null if its block was not in memory when the update arrived
+    finalizedEpoch: Epoch | null;
+    // the finalized checkpoint block, if still in memory under the same pointer
+    finalizedBlock: BlockPtr | null;
+    justifiedEpochs: Array<Epoch>;
+    // epochs between the head and the latest finalized epoch
+    lag: number | null;
+}
+
+export const finalityStatus = (store: ChainStore): FinalityStatus | null => {
+    const head = store.latestHead();
+    if (head === null) {
+        return null;
+    }
+    // the slot recorded with the update, not the block now at the pointer: the pointer may have been reused since.
+    const cp = store.latestCheckpoint();
+    const finalizedEpoch = cp !== null && cp.slot !== null ? slotToEpoch(cp.slot) : null;
+    const finalizedBlock = cp !== null ? store.checkpointBlock(cp) : null;
+    const headEpoch = slotToEpoch(head.slot);
+    return {
+        headSlot: head.slot,
+        headEpoch,
+        finalizedEpoch,
+        finalizedBlock: finalizedBlock !== null ? finalizedBlock.selfPtr : null,
+        justifiedEpochs: justifiedEpochs(store.head),
+        lag: finalizedEpoch === null ? null : headEpoch - finalizedEpoch,
+    };
+};
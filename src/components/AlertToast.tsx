@@ -0,0 +1,23 @@
+import React from "react";
+import {IconButton, Snackbar} from "@material-ui/core";
+import {Alert, alertRules} from "../alerts";
+
+interface AlertToastProps {
+    alert: Alert | null;
+    onClose: () => void;
+}
+
+const ruleLabel = (alert: Alert) => {
+    const rule = alertRules.find(r => r.id === alert.rule);
+    return rule ? rule.label : alert.rule;
+};
+
+// Shows the latest alert for a few seconds.
+const AlertToast: React.FC<AlertToastProps> = (props) => (
+    <Snackbar open={props.alert !== null} autoHideDuration={8000} onClose={props.onClose}
+              anchorOrigin={{vertical: 'top', horizontal: 'right'}}
+              message={props.alert === null ? "" : <span><b>{ruleLabel(props.alert)}</b>: {props.alert.message}</span>}
+              action={<IconButton size="small" color="inherit" onClick={props.onClose}>✕</IconButton>}/>
+);
+
+export default AlertToast;
@@ -0,0 +1,69 @@
+import React from "react";
+import {
+    Button, Checkbox, Dialog, DialogActions, DialogContent, DialogTitle, FormControlLabel, List, ListItem,
+    ListItemText, Switch, TextField, Typography
+} from "@material-ui/core";
+import {Alert, AlertRuleId, AlertSettings, alertRules} from "../alerts";
+import "./AlertsDialog.css";
+
+interface AlertsDialogProps {
+    open: boolean;
+    settings: AlertSettings;
+    // newest first
+    history: Array<Alert>;
+    onChange: (settings: AlertSettings) => void;
+    onClearHistory: () => void;
+    onClose: () => void;
+}
+
+// Enable the alert rules and set their thresholds, and list the alerts so far.
+const AlertsDialog: React.FC<AlertsDialogProps> = (props) => {
+    const {settings, onChange} = props;
+    const setEnabled = (id: AlertRuleId, enabled: boolean) =>
+        onChange({...settings, enabled: {...settings.enabled, [id]: enabled}});
+    return (
+        <Dialog open={props.open} onClose={props.onClose} fullWidth>
+            <DialogTitle>Alerts</DialogTitle>
+            <DialogContent>
+                {alertRules.map(rule => (
+                    <div key={rule.id} className="alert-rule">
+                        <FormControlLabel label={rule.label} control={
+                            <Checkbox checked={settings.enabled[rule.id]}
+                                      onChange={(e, checked) => setEnabled(rule.id, checked)}/>
+                        }/>
+                        {rule.threshold !== undefined && (
+                            <TextField type="number" margin="dense" label={rule.thresholdLabel}
+                                       value={settings[rule.threshold]}
+                                       onChange={e => {
+                                           const value = parseFloat(e.target.value);
+                                           if (!isNaN(value) && value >= 0 && rule.threshold !== undefined) {
+                                               onChange({...settings, [rule.threshold]: value});
+                                           }
+                                       }}/>
+                        )}
+                    </div>
+                ))}
+                <FormControlLabel label="Browser notifications" control={
+                    <Switch checked={settings.notifications}
+                            onChange={(e, checked) => onChange({...settings, notifications: checked})}/>
+                }/>
+                <Typography variant="subtitle2">History</Typography>
+                {props.history.length === 0 && <Typography variant="caption">No alerts yet</Typography>}
+                <List dense className="alert-history">
+                    {props.history.map(alert => (
+                        <ListItem key={alert.id}>
+                            <ListItemText primary={alert.message}
+                                          secondary={new Date(alert.time).toLocaleTimeString() + " - " + alert.rule}/>
+                        </ListItem>
+                    ))}
+                </List>
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={props.onClearHistory}>Clear history</Button>
+                <Button onClick={props.onClose} color="primary">Close</Button>
+            </DialogActions>
+        </Dialog>
+    );
+};
+
+export default AlertsDialog;
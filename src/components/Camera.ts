@@ -0,0 +1,44 @@
+import * as PIXI from 'pixi.js';
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+// View transform of a container: content is scaled by zoom, then offset by x/y in view coordinates.
+export class Camera {
+    x: number = 0;
+    y: number = 0;
+    zoom: number = 1;
+
+    // true when the camera automatically tracks the chain head
+    followHead: boolean = true;
+
+    apply(container: PIXI.Container) {
+        container.position.set(this.x, this.y);
+        container.scale.set(this.zoom, this.zoom);
+    }
+
+    panBy(dx: number, dy: number) {
+        this.x += dx;
+        this.y += dy;
+    }
+
+    // zoom by the factor, keeping the content under the view position (px, py) in place.
+    zoomAt(factor: number, px: number, py: number) {
+        const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, this.zoom * factor));
+        const applied = zoom / this.zoom;
+        this.x = px - (px - this.x) * applied;
+        this.y = py - (py - this.y) * applied;
+        this.zoom = zoom;
+    }
+
+    // move the camera so that the content position (cx, cy) shows at the view position (vx, vy).
+    lookAt(cx: number, cy: number, vx: number, vy: number) {
+        this.x = vx - cx * this.zoom;
+        this.y = vy - cy * this.zoom;
+    }
+
+    // content coordinates of a view position
+    toContent(vx: number, vy: number): PIXI.Point {
+        return new PIXI.Point((vx - this.x) / this.zoom, (vy - this.y) / this.zoom);
+    }
+}
@@ -0,0 +1,109 @@
+import React, {Component} from 'react';
+import {Typography} from "@material-ui/core";
+import {AttestationPtr, CommitteeIndex, Slot} from "../protocol";
+import {ChainStore} from "../store";
+import {ParticipationCell, VoteTally, participationMatrix} from "../participation";
+import "./CommitteeMatrix.css";
+
+// slots shown in the matrix, newest first
+const MATRIX_SLOTS = 16;
+
+export type CommitteeCellRef = {
+    slot: Slot;
+    commIndex: CommitteeIndex;
+}
+
+interface CommitteeMatrixProps {
+    store: ChainStore;
+    selected: CommitteeCellRef | null;
+    // called with the attestations of the clicked cell, or with null when the selected cell is clicked again
+    onSelect: (cell: CommitteeCellRef | null, attestations: Array<AttestationPtr>) => void;
+}
+
+const formatTally = (label: string, t: VoteTally) =>
+    `${label}: ${t.correct} correct, ${t.incorrect} incorrect` + (t.unknown > 0 ? `, ${t.unknown} unknown` : "");
+
+// worst verdict of the cell: wrong target or source, wrong head, or all correct
+const cellClass = (cell: ParticipationCell | undefined): string => {
+    if (!cell) {
+        return "committee-cell-empty";
+    }
+    if (cell.target.incorrect > 0 || cell.source.incorrect > 0) {
+        return "committee-cell-fail";
+    }
+    if (cell.head.incorrect > 0) {
+        return "committee-cell-warn";
+    }
+    if (cell.head.correct + cell.target.correct + cell.source.correct === 0) {
+        return "committee-cell-unknown";
+    }
+    return "committee-cell-good";
+};
+
+// Attestations per slot and committee, colored by the correctness of their votes.
+export class CommitteeMatrix extends Component<CommitteeMatrixProps> {
+
+    private unsubscribe: undefined | (() => void);
+
+    componentDidMount() {
+        this.unsubscribe = this.props.store.subscribe(() => this.forceUpdate());
+    }
+
+    componentWillUnmount() {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+        }
+    }
+
+    onCellClick = (slot: Slot, commIndex: CommitteeIndex, cell: ParticipationCell | undefined) => {
+        const sel = this.props.selected;
+        if (cell === undefined || (sel !== null && sel.slot === slot && sel.commIndex === commIndex)) {
+            this.props.onSelect(null, []);
+        } else {
+            this.props.onSelect({slot, commIndex}, cell.attestations);
+        }
+    };
+
+    render() {
+        const m = participationMatrix(this.props.store, MATRIX_SLOTS);
+        if (m.committees === 0) {
+            return <Typography variant="caption">No attestations yet</Typography>;
+        }
+        const committees: Array<CommitteeIndex> = [];
+        for (let i = 0; i < m.committees; i++) {
+            committees.push(i);
+        }
+        const sel = this.props.selected;
+        return (
+            <div className="committee-matrix">
+                <Typography variant="caption">Attestations per slot and committee</Typography>
+                <table>
+                    <tbody>
+                    {m.slots.map(slot => (
+                        <tr key={slot}>
+                            <th>{slot}</th>
+                            {committees.map(ci => {
+                                const cell = m.cells[slot][ci];
+                                const selected = sel !== null && sel.slot === slot && sel.commIndex === ci;
+                                const title = cell === undefined
+                                    ? `slot ${slot}, committee ${ci}: no attestations`
+                                    : [`slot ${slot}, committee ${ci}: ${cell.attestations.length} attestations, ${cell.voters} voters`,
+                                        formatTally("head", cell.head),
+                                        formatTally("target", cell.target),
+                                        formatTally("source", cell.source)].join("\n");
+                                return (
+                                    <td key={ci} title={title}
+                                        className={cellClass(cell) + (selected ? " committee-cell-selected" : "")}
+                                        onClick={() => this.onCellClick(slot, ci, cell)}>
+                                        {cell === undefined ? "" : cell.attestations.length}
+                                    </td>
+                                );
+                            })}
+                        </tr>
+                    ))}
+                    </tbody>
+                </table>
+            </div>
+        );
+    }
+}
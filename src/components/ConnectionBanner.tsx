@@ -0,0 +1,72 @@
+import React, {Component} from 'react';
+import {Button, MenuItem, Select, Typography} from "@material-ui/core";
+import {ConnectionPhase, ConnectionStatus, ReconnectPolicy, reconnectPolicies, retryCountdown} from "../connection";
+import "./ConnectionBanner.css";
+
+interface ConnectionBannerProps {
+    status: ConnectionStatus;
+    // the simulator and replays do not connect
+    canReconnect: boolean;
+    onReconnect: () => void;
+    paused: boolean;
+    // diffs and snapshots received while paused
+    pausedCount: number;
+    onTogglePause: () => void;
+    policy: ReconnectPolicy;
+    onPolicyChange: (policy: ReconnectPolicy) => void;
+}
+
+const phaseLabels: Record<ConnectionPhase, string> = {
+    connecting: "Connecting",
+    connected: "Connected",
+    reconnecting: "Reconnecting",
+    offline: "Offline",
+    stopped: "Disconnected",
+};
+
+// Shows whether the view is live, and the controls to reconnect and to pause the stream.
+export class ConnectionBanner extends Component<ConnectionBannerProps> {
+
+    // ticks the retry countdown
+    private interval: undefined | number;
+
+    componentDidMount() {
+        this.interval = window.setInterval(() => {
+            if (this.props.status.retryAt !== null) {
+                this.forceUpdate();
+            }
+        }, 1000);
+    }
+
+    componentWillUnmount() {
+        if (this.interval !== undefined) {
+            window.clearInterval(this.interval);
+        }
+    }
+
+    render() {
+        const {status, paused} = this.props;
+        const countdown = status.phase === 'connected' ? null : retryCountdown(status);
+        const stale = status.phase !== 'connected' || paused;
+        return (
+            <div className={"connection-banner" + (stale ? " connection-stale" : "")}>
+                <span className={"connection-dot connection-" + status.phase}/>
+                <Typography variant="body2" className="connection-text">
+                    {phaseLabels[status.phase]}
+                    {countdown !== null && `, retrying in ${countdown}s`}
+                    {status.retries > 0 && ` (${status.retries} failed)`}
+                    {paused && ` - paused, ${this.props.pausedCount} updates waiting`}
+                </Typography>
+                {this.props.canReconnect && status.phase !== 'connected' && (
+                    <Button size="small" onClick={this.props.onReconnect}>Reconnect now</Button>
+                )}
+                <Button size="small" onClick={this.props.onTogglePause}>{paused ? "Resume" : "Pause"}</Button>
+                <Typography variant="caption" className="connection-text">On reconnect:</Typography>
+                <Select value={this.props.policy}
+                        onChange={e => this.props.onPolicyChange(e.target.value as ReconnectPolicy)}>
+                    {reconnectPolicies.map(p => <MenuItem key={p.policy} value={p.policy}>{p.label}</MenuItem>)}
+                </Select>
+            </div>
+        );
+    }
+}
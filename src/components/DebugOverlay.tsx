@@ -0,0 +1,85 @@
+import React, {Component} from 'react';
+import {Table, TableBody, TableCell, TableRow} from "@material-ui/core";
+import {ChainStore} from "../store";
+import {DiffSync} from "../sync";
+import {DecodeStats} from "../messages";
+import {StreamMetrics, Timing, formatBytes} from "../metrics";
+import {World} from "./World";
+import "./DebugOverlay.css";
+
+interface DebugOverlayProps {
+    store: ChainStore;
+    sync: DiffSync;
+    metrics: StreamMetrics;
+    decodeStats: DecodeStats;
+    // undefined until the textures are loaded
+    world: World | undefined;
+    connection: string;
+}
+
+// ms between refreshes, the numbers change too often to render on every message
+const REFRESH_INTERVAL = 500;
+
+const timedSteps = ['updateWorld', 'layoutDag', 'drawRelations'];
+
+const formatTiming = (t: Timing | undefined) => t === undefined ? "-" : `${t.last.toFixed(1)} ms (avg ${t.avg.toFixed(1)} ms)`;
+
+// Numbers about the data stream, the memory and the rendering, to debug the client and server.
+export class DebugOverlay extends Component<DebugOverlayProps> {
+
+    private interval: undefined | number;
+
+    componentDidMount() {
+        this.interval = window.setInterval(() => this.forceUpdate(), REFRESH_INTERVAL);
+    }
+
+    componentWillUnmount() {
+        if (this.interval !== undefined) {
+            window.clearInterval(this.interval);
+        }
+    }
+
+    // the missing diffs and the buffered ones after them, if there is a gap
+    gap(): string {
+        const pending = this.props.sync.pendingIndices();
+        const next = this.props.store.nextDiffIndex;
+        if (pending.length === 0) {
+            return "none";
+        }
+        const missing = next === null ? "unknown" : `${next}-${pending[0] - 1}`;
+        const resync = this.props.sync.resyncRequestedAt === null ? "" : ", resync requested";
+        return `missing ${missing}, ${pending.length} buffered${resync}`;
+    }
+
+    render() {
+        const {store, metrics, decodeStats, world} = this.props;
+        const memory = store.memory;
+        const rows: Array<[string, string]> = [
+            ["Connection", this.props.connection],
+            ["Messages/s", metrics.messagesPerSecond().toFixed(1)],
+            ["Received", `${metrics.messages.toLocaleString()} msgs, ${formatBytes(metrics.bytes)}`],
+            ["Last diff", metrics.lastDiffIndex === null ? "-" : String(metrics.lastDiffIndex)],
+            ["Gap", this.gap()],
+            ["Decode failures", String(decodeStats.failures)],
+            ["Blocks", Object.keys(store.blocks).length.toLocaleString()],
+            ["Attestations", Object.keys(store.attestations).length.toLocaleString()],
+            ["Validators", store.valCount.toLocaleString()],
+            ["Memory", memory === null ? "-" : `head ${memory.head}, finalized ${memory.finalized}, blocks ${memory.blocks}, `
+                + `attestations ${memory.attestations}, votes ${memory.latestVotes}`],
+            ["FPS", world ? world.app.ticker.FPS.toFixed(0) : "-"],
+            ...timedSteps.map((step): [string, string] => [step, formatTiming(world ? world.timings.steps[step] : undefined)]),
+        ];
+        return (
+            <Table size="small" className="debug-table">
+                <TableBody>
+                    {rows.map(([label, value]) => (
+                        <TableRow key={label}>
+                            <TableCell>{label}</TableCell>
+                            <TableCell>{value}</TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        );
+    }
+}
@@ -0,0 +1,69 @@
+import React, {Component} from 'react';
+import {Typography} from "@material-ui/core";
+import {Epoch} from "../protocol";
+import {ChainStore} from "../store";
+import {EpochSummary, epochSummaries} from "../epochSummary";
+import "./EpochStrip.css";
+
+// epochs shown in the strip, the latest ones
+const STRIP_EPOCHS = 12;
+
+interface EpochStripProps {
+    store: ChainStore;
+    onSelect: (epoch: Epoch) => void;
+}
+
+const formatPercent = (v: number) => (v * 100).toFixed(0) + "%";
+
+const cellClass = (s: EpochSummary) =>
+    "epoch-cell" + (s.finalized ? " epoch-finalized" : s.justified ? " epoch-justified" : "");
+
+const cellTitle = (s: EpochSummary) => [
+    `Epoch ${s.epoch}` + (s.finalized ? ", finalized" : s.justified ? ", justified" : ""),
+    `${s.proposed} blocks, ${s.empty} empty slots of ${s.slots} in memory`,
+    `${s.forked} blocks off the canonical chain`,
+    `${s.attestations} attestations`,
+    "FFG target participation: " + (s.targetParticipation === null ? "unknown" : formatPercent(s.targetParticipation)),
+].join("\n");
+
+// One cell per epoch, with its blocks, attestations, participation and finality. Click a cell to zoom to it.
+export class EpochStrip extends Component<EpochStripProps> {
+
+    private unsubscribe: undefined | (() => void);
+
+    componentDidMount() {
+        this.unsubscribe = this.props.store.subscribe(() => this.forceUpdate());
+    }
+
+    componentWillUnmount() {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+        }
+    }
+
+    render() {
+        const summaries = epochSummaries(this.props.store).slice(-STRIP_EPOCHS);
+        if (summaries.length === 0) {
+            return <Typography variant="caption">No epochs yet</Typography>;
+        }
+        return (
+            <div className="epoch-strip">
+                {summaries.map(s => (
+                    <div key={s.epoch} className={cellClass(s)} title={cellTitle(s)}
+                         onClick={() => this.props.onSelect(s.epoch)}>
+                        <Typography variant="caption" component="div" className="epoch-cell-title">
+                            Epoch {s.epoch}
+                        </Typography>
+                        <Typography variant="caption" component="div">
+                            {s.proposed}/{s.slots} blocks{s.empty > 0 && `, ${s.empty} empty`}
+                        </Typography>
+                        <Typography variant="caption" component="div">
+                            {s.attestations} att.
+                            {s.targetParticipation !== null && `, target ${formatPercent(s.targetParticipation)}`}
+                        </Typography>
+                    </div>
+                ))}
+            </div>
+        );
+    }
+}
@@ -0,0 +1,45 @@
+import React from "react";
+import {List, ListItem, ListItemText, Typography} from "@material-ui/core";
+import {ChainEvent} from "../events";
+import "./EventTimeline.css";
+
+interface EventTimelineProps {
+    // newest first
+    events: Array<ChainEvent>;
+    onSelect: (event: ChainEvent) => void;
+}
+
+const describe = (e: ChainEvent): string => {
+    switch (e.kind) {
+        case 'reorg':
+            return `Reorg of ${e.depth} blocks, head ${e.oldHeadSlot} → ${e.newHeadSlot}`
+                + (e.commonAncestor === null ? ", fork point pruned" : `, fork at slot ${e.commonAncestor.slot}`);
+        case 'finalized':
+            return e.epoch === null ? "Finalized a checkpoint that is not in memory" : `Finalized epoch ${e.epoch}`;
+        case 'validators':
+            return `Validators ${e.from.toLocaleString()} → ${e.to.toLocaleString()}`;
+    }
+};
+
+// events that have something to show in the DAG
+const selectable = (e: ChainEvent): boolean =>
+    (e.kind === 'reorg' && (e.commonAncestor !== null || e.oldBranch.length > 0)) || (e.kind === 'finalized' && e.block !== null);
+
+// Notable chain events, newest first. Clicking a reorg or checkpoint shows it in the DAG.
+const EventTimeline: React.FC<EventTimelineProps> = (props) => (
+    <div className="event-timeline">
+        <Typography variant="caption">Events</Typography>
+        {props.events.length === 0 && <Typography variant="caption" component="p">Nothing notable yet</Typography>}
+        <List dense disablePadding>
+            {props.events.map(e => {
+                const text = <ListItemText primary={describe(e)}
+                                           secondary={`slot ${e.slot}, ${new Date(e.time).toLocaleTimeString()}`}/>;
+                return selectable(e)
+                    ? <ListItem key={e.id} button className={"event-" + e.kind} onClick={() => props.onSelect(e)}>{text}</ListItem>
+                    : <ListItem key={e.id} className={"event-" + e.kind}>{text}</ListItem>;
+            })}
+        </List>
+    </div>
+);
+
+export default EventTimeline;
@@ -0,0 +1,75 @@
+import React, {Component} from 'react';
+import {TextField, Typography} from "@material-ui/core";
+import {ChainStore} from "../store";
+import {finalityStatus} from "../chain";
+import "./FinalityIndicator.css";
+
+interface FinalityIndicatorProps {
+    store: ChainStore;
+    // epochs between head and finalized epoch before warning, the threshold of the finality alert
+    threshold: number;
+    onThresholdChange: (threshold: number) => void;
+}
+
+type FinalityIndicatorState = {
+    // the threshold as typed, until it is committed. Null when not editing.
+    thresholdText: string | null;
+}
+
+// Shows the finalized epoch and the finality lag, with a warning when the lag passes the threshold.
+export class FinalityIndicator extends Component<FinalityIndicatorProps, FinalityIndicatorState> {
+
+    state: Readonly<FinalityIndicatorState> = {
+        thresholdText: null,
+    };
+
+    private unsubscribe: undefined | (() => void);
+
+    componentDidMount() {
+        this.unsubscribe = this.props.store.subscribe(() => this.forceUpdate());
+    }
+
+    componentWillUnmount() {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+        }
+    }
+
+    // use the typed threshold if it is valid, otherwise go back to the current one
+    commitThreshold = () => {
+        const text = this.state.thresholdText;
+        if (text === null) {
+            return;
+        }
+        const threshold = Number(text);
+        if (text.trim() !== "" && Number.isInteger(threshold) && threshold >= 0 && threshold !== this.props.threshold) {
+            this.props.onThresholdChange(threshold);
+        }
+        this.setState({thresholdText: null});
+    };
+
+    render() {
+        const status = finalityStatus(this.props.store);
+        if (status === null) {
+            return null;
+        }
+        const lagging = status.lag === null || status.lag > this.props.threshold;
+        return (
+            <div className={"finality-indicator" + (lagging ? " finality-lagging" : "")}>
+                <Typography component="p">
+                    {status.finalizedEpoch === null
+                        ? "Finalized epoch unknown"
+                        : `Finalized epoch ${status.finalizedEpoch}, lag ${status.lag} epochs`}
+                    {lagging && " ⚠"}
+                </Typography>
+                <TextField label="Warn after (epochs)" type="number" margin="dense"
+                           value={this.state.thresholdText === null ? String(this.props.threshold) : this.state.thresholdText}
+                           onChange={(e) => this.setState({thresholdText: e.target.value})}
+                           onBlur={this.commitThreshold}
+                           onKeyDown={(e) => {
+                               if (e.key === "Enter") this.commitThreshold();
+                           }}/>
+            </div>
+        );
+    }
+}
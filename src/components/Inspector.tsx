@@ -0,0 +1,157 @@
+import React, {Component} from 'react';
+import {Button, Divider, Drawer, List, ListItem, ListItemText, ListSubheader, Typography} from "@material-ui/core";
+import {AttestationSummary, BlockPtr, BlockSummary} from "../protocol";
+import {ChainStore} from "../store";
+import {Selection} from "../selection";
+import "./Inspector.css";
+
+interface InspectorProps {
+    store: ChainStore;
+    selection: Selection | null;
+    onSelect: (sel: Selection) => void;
+    onClose: () => void;
+}
+
+// Side drawer with the details of the selected block, attestation or validator.
+export class Inspector extends Component<InspectorProps> {
+
+    private unsubscribe: undefined | (() => void);
+
+    componentDidMount() {
+        // the selected data may arrive, change or be pruned with any update
+        this.unsubscribe = this.props.store.subscribe(() => {
+            if (this.props.selection !== null) {
+                this.forceUpdate();
+            }
+        });
+    }
+
+    componentWillUnmount() {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+        }
+    }
+
+    // The block is the one the pointer refers to, as resolved by the caller.
+    // If another block took the pointer since, the referenced block was pruned, and the item does not link to it.
+    blockItem(label: string, ptr: BlockPtr, b: BlockSummary | null) {
+        const pruned = b === null && this.props.store.getBlock(ptr) !== null;
+        return (
+            <ListItem key={label + ptr} button dense disabled={pruned}
+                      onClick={() => this.props.onSelect({kind: 'block', ptr})}>
+                <ListItemText primary={label + ": block " + ptr}
+                              secondary={b !== null ? "slot " + b.slot + ", " + b.htr : (pruned ? "pruned" : "not in memory")}/>
+            </ListItem>
+        );
+    }
+
+    attestationItem(a: AttestationSummary) {
+        return (
+            <ListItem key={"att" + a.selfPtr} button dense
+                      onClick={() => this.props.onSelect({kind: 'attestation', ptr: a.selfPtr})}>
+                <ListItemText primary={"attestation " + a.selfPtr}
+                              secondary={"slot " + a.slot + ", committee " + a.commIndex}/>
+            </ListItem>
+        );
+    }
+
+    renderBlock(b: BlockSummary) {
+        const {store} = this.props;
+        const atts = store.attestationsFor(b.selfPtr);
+        return (
+            <React.Fragment>
+                <Typography variant="h6">Block {b.selfPtr}</Typography>
+                <Typography variant="body2" className="inspector-root">{b.htr}</Typography>
+                <Typography variant="body2">Slot {b.slot}</Typography>
+                <List dense>
+                    {this.blockItem("parent", b.parent, store.getParent(b.selfPtr))}
+                    <ListSubheader>Children</ListSubheader>
+                    {store.getChildren(b.selfPtr).map(c => this.blockItem("child", c.selfPtr, c))}
+                    <ListSubheader>Heads of attestations</ListSubheader>
+                    {atts.filter(a => a.head === b.selfPtr).map(a => this.attestationItem(a))}
+                    <ListSubheader>Targets of attestations</ListSubheader>
+                    {atts.filter(a => a.target === b.selfPtr).map(a => this.attestationItem(a))}
+                    <ListSubheader>Sources of attestations</ListSubheader>
+                    {atts.filter(a => a.source === b.selfPtr).map(a => this.attestationItem(a))}
+                </List>
+            </React.Fragment>
+        );
+    }
+
+    renderAttestation(a: AttestationSummary) {
+        const {store} = this.props;
+        const voters = store.votersOf(a.selfPtr);
+        return (
+            <React.Fragment>
+                <Typography variant="h6">Attestation {a.selfPtr}</Typography>
+                <Typography variant="body2">Slot {a.slot}, committee {a.commIndex}</Typography>
+                <List dense>
+                    {this.blockItem("source", a.source, store.attestedBlock(a, a.source))}
+                    {this.blockItem("target", a.target, store.attestedBlock(a, a.target))}
+                    {this.blockItem("head", a.head, store.attestedBlock(a, a.head))}
+                    <ListSubheader>Latest vote of</ListSubheader>
+                    {voters.map(vi => (
+                        <ListItem key={"val" + vi} button dense
+                                  onClick={() => this.props.onSelect({kind: 'validator', index: vi})}>
+                            <ListItemText primary={"validator " + vi}/>
+                        </ListItem>
+                    ))}
+                </List>
+            </React.Fragment>
+        );
+    }
+
+    renderValidator(index: number) {
+        const {store} = this.props;
+        if (index >= store.valCount) {
+            return this.renderMissing("Validator " + index, "not in the validator set (yet)");
+        }
+        return (
+            <React.Fragment>
+                <Typography variant="h6">Validator {index}</Typography>
+                <List dense>
+                    <ListSubheader>Latest votes</ListSubheader>
+                    {store.votesOf(index).map(a => this.attestationItem(a))}
+                </List>
+            </React.Fragment>
+        );
+    }
+
+    renderMissing(title: string, reason: string) {
+        return (
+            <React.Fragment>
+                <Typography variant="h6">{title}</Typography>
+                <Typography variant="body2">{reason}</Typography>
+            </React.Fragment>
+        );
+    }
+
+    renderContent(sel: Selection) {
+        const {store} = this.props;
+        switch (sel.kind) {
+            case 'block': {
+                const b = store.getBlock(sel.ptr);
+                return b === null ? this.renderMissing("Block " + sel.ptr, "waiting for it to arrive in the stream") : this.renderBlock(b);
+            }
+            case 'attestation': {
+                const a = store.getAttestation(sel.ptr);
+                return a === null ? this.renderMissing("Attestation " + sel.ptr, "waiting for it to arrive in the stream") : this.renderAttestation(a);
+            }
+            case 'validator':
+                return this.renderValidator(sel.index);
+        }
+    }
+
+    render() {
+        const {selection, onClose} = this.props;
+        return (
+            <Drawer anchor="right" variant="persistent" open={selection !== null}>
+                <div className="inspector">
+                    <Button size="small" onClick={onClose}>Close</Button>
+                    <Divider/>
+                    {selection !== null && this.renderContent(selection)}
+                </div>
+            </Drawer>
+        )
+    }
+}
@@ -0,0 +1,60 @@
+import React from "react";
+import {Button, MenuItem, Select, Slider, Typography} from "@material-ui/core";
+import {LayoutKind, LayoutSettings, layoutKinds} from "../layout";
+import "./LayoutSettingsPanel.css";
+
+interface LayoutSettingsPanelProps {
+    settings: LayoutSettings;
+    onChange: (settings: LayoutSettings) => void;
+    onReset: () => void;
+    open: boolean;
+    onToggle: () => void;
+}
+
+type NumberSetting = {
+    key: Exclude<keyof LayoutSettings, 'kind'>;
+    label: string;
+    min: number;
+    max: number;
+    // only shown for these layouts, if set
+    kinds?: Array<LayoutKind>;
+}
+
+const numberSettings: Array<NumberSetting> = [
+    {key: 'slotSpacing', label: "Slot spacing", min: 12, max: 120},
+    {key: 'forkSpacing', label: "Fork spacing", min: 12, max: 120},
+    {key: 'epochGap', label: "Epoch gap", min: 0, max: 200, kinds: ['epochs']},
+    {key: 'attOffset', label: "Attestation offset", min: 0, max: 60},
+    {key: 'attMargin', label: "Attestation margin", min: 0, max: 60},
+    {key: 'attStep', label: "Attestation stacking", min: 1, max: 24},
+    {key: 'attStackLimit', label: "Attestations per stack (0: no limit)", min: 0, max: 32},
+];
+
+// Choose the DAG layout, and tune its spacing.
+const LayoutSettingsPanel: React.FC<LayoutSettingsPanelProps> = (props) => {
+    const {settings, onChange} = props;
+    return (
+        <div className="layout-settings">
+            <div className="layout-settings-header">
+                <Select value={settings.kind} onChange={e => onChange({...settings, kind: e.target.value as LayoutKind})}>
+                    {layoutKinds.map(k => <MenuItem key={k.kind} value={k.kind}>{k.label}</MenuItem>)}
+                </Select>
+                <Button size="small" onClick={props.onToggle}>{props.open ? "Less" : "Spacing"}</Button>
+            </div>
+            {props.open && (
+                <React.Fragment>
+                    {numberSettings.filter(s => s.kinds === undefined || s.kinds.includes(settings.kind)).map(s => (
+                        <div key={s.key}>
+                            <Typography variant="caption">{s.label}: {settings[s.key]}</Typography>
+                            <Slider min={s.min} max={s.max} step={1} value={settings[s.key]}
+                                    onChange={(e, value) => onChange({...settings, [s.key]: value as number})}/>
+                        </div>
+                    ))}
+                    <Button size="small" onClick={props.onReset}>Defaults</Button>
+                </React.Fragment>
+            )}
+        </div>
+    );
+};
+
+export default LayoutSettingsPanel;
@@ -1,655 +1,570 @@
 import React, {Component} from 'react';
-import {Paper, Typography} from "@material-ui/core";
+import {Button, FormControlLabel, Paper, Switch} from "@material-ui/core";
+import {RouteComponentProps} from "react-router-dom";
 import ReconnectingWebSocket from "reconnecting-websocket";
 import * as PIXI from 'pixi.js';
-import {JsonDecoder, Result as JsonResult, Ok as JsonOk, Err as JsonErr} from "ts.data.json";
+import {
+    AttestationPtr, Compatibility, Epoch, MemoryDiff, ResyncRequest, ServerInfo, Snapshot,
+    checkCompatibility, defaultMemoryLimits, encResyncRequest
+} from "../protocol";
+import {DiffSync} from "../sync";
+import {SUBPROTOCOLS} from "../binary";
+import {DecodeFailure, DecodeResult, DecodeStats, ServerMessage, decodeBinary, decodeJsonMessage} from "../messages";
+import {StreamMetrics} from "../metrics";
+import {
+    ConnectionStatus, ReconnectPolicy, defaultReconnectOptions, initialConnectionStatus, socketOptions, statusAfterClose,
+    stoppedStatus
+} from "../connection";
+import {ChainStore} from "../store";
+import {World} from "./World";
+import {Network, loadNetworks, resolveNetwork, saveNetworks} from "../networks";
+import {NetworkSettings} from "./NetworkSettings";
+import {Inspector} from "./Inspector";
+import {StatsOverlay} from "./StatsOverlay";
+import {FinalityIndicator} from "./FinalityIndicator";
+import {CommitteeCellRef, CommitteeMatrix} from "./CommitteeMatrix";
+import AlertToast from "./AlertToast";
+import AlertsDialog from "./AlertsDialog";
+import EventTimeline from "./EventTimeline";
+import {SearchBox} from "./SearchBox";
+import ProtocolStatus from "./ProtocolStatus";
+import {DebugOverlay} from "./DebugOverlay";
+import {ConnectionBanner} from "./ConnectionBanner";
+import LayoutSettingsPanel from "./LayoutSettingsPanel";
+import {EpochStrip} from "./EpochStrip";
+import ReplayControls from "./ReplayControls";
+import ValidatorLegend from "./ValidatorLegend";
+import VoteLineControls from "./VoteLineControls";
+import {VoteLineFilter, defaultVoteLineFilter} from "../voteLines";
+import {ValidatorColorMode, colorModes} from "../validatorColors";
+import {loadSetting, saveSetting} from "../settings";
+import {LayoutSettings, defaultLayoutSettings, layoutKinds} from "../layout";
+import {ChainEvent, EventTracker} from "../events";
+import {SearchResult, search} from "../search";
+import {Alert, AlertEngine, AlertSettings, alertRules, defaultAlertSettings} from "../alerts";
+import {ChainSimulator, DEFAULT_SIM_SLOT_TIME, SIMULATOR_ENDPOINT} from "../simulator";
+import {SECONDS_PER_SLOT} from "../chain";
+import {BENCHMARK_PARAM, defaultBenchmarkOptions, runBenchmark} from "../benchmark";
+import {PlaybackTarget, Player, RecordedMessage, Recorder, parseRecording} from "../recording";
+import {Selection, parseSelection, sameSelection, selectionPath} from "../selection";
 import "./Main.css";
 
 PIXI.settings.RESOLUTION = window.devicePixelRatio;
+PIXI.Loader.registerPlugin(PIXI.TextureLoader);
 
-type BlockPtr = number;
-type AttestationPtr = number;
-type LatestVotesPtr = number;
-type Gwei = number;
-type Slot = number;
-type ValidatorIndex = number;
-type DepositIndex = number;
-type CommitteeIndex = number;
-type Root = string;
-
-const decBlockPtr = JsonDecoder.number;
-const decAttestationPtr = JsonDecoder.number;
-const decLatestVotesPtr = JsonDecoder.number;
-const decGwei = JsonDecoder.number;
-const decSlot = JsonDecoder.number;
-const decValidatorIndex = JsonDecoder.number;
-const decDepositIndex = JsonDecoder.number;
-const decCommitteeIndex = JsonDecoder.number;
-const decRoot = JsonDecoder.string;
-
-type FFG = {
-    source: Gwei;
-    target: Gwei;
-    head: Gwei;
-}
+const COLOR_MODE_KEY = "validatorColorMode";
 
-const decFFG = JsonDecoder.object<FFG>({
-    source: decGwei,
-    target: decGwei,
-    head: decGwei,
-}, 'ffg');
-
-type ValidatorCounts = {
-    total: number;
-    active: number;
-    slashed: number;
-    eligible: number;
-    nonEligible: number;
-    exiting: number;
-    withdrawable: number;
-}
+const loadColorMode = (): ValidatorColorMode => {
+    const mode = loadSetting<ValidatorColorMode>(COLOR_MODE_KEY, 'recency');
+    return colorModes.some(m => m.mode === mode) ? mode : 'recency';
+};
 
-const decValidatorCounts = JsonDecoder.object<ValidatorCounts>({
-    total: JsonDecoder.number,
-    active: JsonDecoder.number,
-    slashed: JsonDecoder.number,
-    eligible: JsonDecoder.number,
-    nonEligible: JsonDecoder.number,
-    exiting: JsonDecoder.number,
-    withdrawable: JsonDecoder.number,
-}, 'validator_counts');
-
-type Eth1Data = {
-    depositRoot: Root;
-    depositCount: DepositIndex;
-    blockHash: Root;
-}
+const VOTE_LINE_FILTER_KEY = "voteLineFilter";
 
-const decEth1Data = JsonDecoder.object<Eth1Data>({
-    depositRoot: decRoot,
-    depositCount: decDepositIndex,
-    blockHash: decRoot,
-}, 'eth1_data');
-
-type HeadSummary = {
-    headBlock: BlockPtr;
-    slot: Slot;
-    proposerIndex: ValidatorIndex;
-    validatorCounts: ValidatorCounts;
-    totalStaked: Gwei;
-    avgBalance: Gwei;
-    depositIndex: DepositIndex;
-    eth1Data: Eth1Data;
-    previousFFG: FFG;
-    currentFFG: FFG;
-}
+const ALERT_SETTINGS_KEY = "alertSettings";
 
-const decHeadSummary = JsonDecoder.object<HeadSummary>({
-    headBlock: decBlockPtr,
-    slot: decSlot,
-    proposerIndex: decValidatorIndex,
-    validatorCounts: decValidatorCounts,
-    totalStaked: decGwei,
-    avgBalance: decGwei,
-    depositIndex: decDepositIndex,
-    eth1Data: decEth1Data,
-    previousFFG: decFFG,
-    currentFFG: decFFG,
-}, 'head_summary');
-
-type BlockSummary = {
-    selfPtr: BlockPtr;
-    htr: Root;
-    slot: Slot;
-    parent: BlockPtr;
-}
+const DEBUG_OVERLAY_KEY = "debugOverlay";
 
-const decBlockSummary = JsonDecoder.object<BlockSummary>({
-    selfPtr: decBlockPtr,
-    htr: decRoot,
-    slot: decSlot,
-    parent: decBlockPtr,
-}, 'block_summary');
-
-type AttestationSummary = {
-    selfPtr: AttestationPtr;
-    slot: Slot;
-    commIndex: CommitteeIndex;
-    head: BlockPtr;
-    target: BlockPtr;
-    source: BlockPtr;
-}
+const RECONNECT_POLICY_KEY = "reconnectPolicy";
 
-const decAttestationSummary = JsonDecoder.object<AttestationSummary>({
-    selfPtr: decAttestationPtr,
-    slot: decSlot,
-    commIndex: decCommitteeIndex,
-    head: decBlockPtr,
-    target: decBlockPtr,
-    source: decBlockPtr,
-}, 'attestation_summary');
-
-type VoteSummary = {
-    validatorIndex: ValidatorIndex;
-    attestationPtr: AttestationPtr;
-}
+const LAYOUT_SETTINGS_KEY = "layoutSettings";
 
-const decVoteSummary = JsonDecoder.object<VoteSummary>({
-    validatorIndex: decValidatorIndex,
-    attestationPtr: decAttestationPtr,
-}, 'vote_summary');
-
-type MemoryState = {
-    // ptrs rotate around buffer
-    head: BlockPtr;       // index modulo HeadsMemory
-    finalized: BlockPtr;       // index modulo FinalizedMemory
-    blocks: BlockPtr;       // index modulo BlocksMemory
-    attestations: AttestationPtr; // index modulo AttestationsMemory
-    latestVotes: LatestVotesPtr; // index modulo LatestVotesMemory
-}
+// saved settings may be missing settings of a newer version, or have a layout kind that no longer exists.
+const loadLayoutSettings = (): LayoutSettings => {
+    const settings = {...defaultLayoutSettings, ...loadSetting<Partial<LayoutSettings>>(LAYOUT_SETTINGS_KEY, {})};
+    return layoutKinds.some(k => k.kind === settings.kind) ? settings : {...settings, kind: defaultLayoutSettings.kind};
+};
 
-const decMemoryState = JsonDecoder.object<MemoryState>({
-    head: decBlockPtr,
-    finalized: decBlockPtr,
-    blocks: decBlockPtr,
-    attestations: decAttestationPtr,
-    latestVotes: decLatestVotesPtr,
-}, 'memory_state');
-
-type MemoryDiff = {
-    diffIndex: number;
-    previous: MemoryState;
-    head: Array<HeadSummary>;
-    finalized: Array<BlockPtr>;
-    blocks: Array<BlockSummary>;
-    attestations: Array<AttestationSummary>;
-    latestVotes: Array<VoteSummary>;
-}
-
-const decMemoryDiff = JsonDecoder.object<MemoryDiff>({
-    diffIndex: JsonDecoder.number,
-    previous: decMemoryState,
-    head: JsonDecoder.array<HeadSummary>(decHeadSummary, 'head'),
-    finalized:  JsonDecoder.array<BlockPtr>(decBlockPtr, 'finalized'),
-    blocks:  JsonDecoder.array<BlockSummary>(decBlockSummary, 'blocks'),
-    attestations:  JsonDecoder.array<AttestationSummary>(decAttestationSummary, 'attestations'),
-    latestVotes: JsonDecoder.array<VoteSummary>(decVoteSummary, 'latest_votes'),
-}, 'memory_diff');
-
-const ZERO_POS = new PIXI.Point(0, 0);
-
-class PixiValidator extends PIXI.Container {
-    index: number;
-    lastVotes: Array<PixiAttestation>;
-
-    constructor(index: number) {
-        super();
-        this.index = index;
-        this.name = "val_" + index;
-        this.lastVotes = new Array<PixiAttestation>();
-
-        // TODO validator sprite
-        // emoji for status?
-        // size for balance?
-        // fade for inactive validators?
-
-        const img = new PIXI.Sprite(PIXI.Texture.from("validator"));
-        this.addChild(img);
-        this.width = 10;
-        this.height = 10;
-    }
-
-    addVote(att: PixiAttestation) {
-        this.lastVotes.push(att);
-        this.lastVotes = this.lastVotes.sort((a, b) => a.attestation.target - b.attestation.target);
-        // only keep track of last 3 votes
-        if (this.lastVotes.length > 3) {
-            this.lastVotes = this.lastVotes.slice(0, 3);
-        }
-    }
-
-    // draw a line between validator and attestation
-    drawVoteRelation(g: PIXI.Graphics) {
-        if (this.lastVotes.length == 0) {
-            // or maybe draw an idle icon?
-            return;
-        }
-        const thisPos = this.toGlobal(ZERO_POS);
-        let fade = 1.0;
-        for (let vote of this.lastVotes) {
-            // g.moveTo(thisPos.x, thisPos.y);
-            // g.lineStyle(1, 0xaaaa00, fade);
-            fade *= 0.7;
-            // const votePos = vote.toGlobal(ZERO_POS);
-            // // TODO: line not visible
-            // // console.log("vote relation: ", thisPos.x, thisPos.y, votePos.x, votePos.y);
-            // g.lineTo(votePos.x, votePos.y);
-        }
-    }
-}
+// updates to keep while paused, older ones are dropped and resynced after resuming
+const MAX_PAUSED_MESSAGES = 1000;
 
-class PixiBlock extends PIXI.Container {
-    block: BlockSummary;
+const connectedStatus: ConnectionStatus = {phase: 'connected', retries: 0, retryAt: null};
 
-    constructor(block: BlockSummary) {
-        super();
-        this.block = block;
-        this.name = "block_" + block.selfPtr;
+// highlights of the branches of a reorg, and of a finalized checkpoint, when shown from the timeline
+const REORG_OLD_COLOR = 0xff5252;
+const REORG_NEW_COLOR = 0x69f0ae;
+const FINALIZED_EVENT_COLOR = 0x2e7d32;
 
-        const blockImg = new PIXI.Sprite(PIXI.Texture.from("block"));
-        this.addChild(blockImg);
-        this.width = 10;
-        this.height = 10;
-    }
+// saved settings may be missing rules or thresholds of a newer version, those get their defaults.
+const loadAlertSettings = (): AlertSettings => {
+    const saved = loadSetting<Partial<AlertSettings>>(ALERT_SETTINGS_KEY, {});
+    return {
+        ...defaultAlertSettings,
+        ...saved,
+        enabled: {...defaultAlertSettings.enabled, ...(saved.enabled || {})},
+    };
+};
 
-    drawParentRelation(g: PIXI.Graphics, getParent: (parentPtr: BlockPtr) => PixiBlock | null) {
-        const parent = getParent(this.block.parent);
-        if (parent === null) {
-            console.log("null parent");
-            // TODO: maybe draw something to indicate the parent was pruned?
-            return
-        }
-        const thisPos = this.toGlobal(ZERO_POS);
-        g.moveTo(thisPos.x, thisPos.y);
-        g.lineStyle(1, 0xffffff, 1.0);
-        const parentPos = parent.toGlobal(ZERO_POS);
-        g.lineTo(parentPos.x, parentPos.y);
-    }
+type MainState = {
+    loaded: boolean,
+    wsOpen: boolean,
+    networks: Array<Network>,
+    network: Network | null,
+    networkSettingsOpen: boolean,
+    followHead: boolean,
+    recording: boolean,
+    recordedCount: number,
+    replayError: string | null,
+    colorMode: ValidatorColorMode,
+    voteLineFilter: VoteLineFilter,
+    // committee of the participation matrix whose attestations are highlighted
+    committeeCell: CommitteeCellRef | null,
+    alertSettings: AlertSettings,
+    alertsOpen: boolean,
+    // latest alert, shown as toast until closed
+    toast: Alert | null,
+    alertCount: number,
+    eventCount: number,
+    searchResult: SearchResult | null,
+    // what the server said about itself when connecting, if anything
+    serverInfo: ServerInfo | null,
+    compatibility: Compatibility | null,
+    serverError: string | null,
+    decodeFailures: number,
+    debugOpen: boolean,
+    connection: ConnectionStatus,
+    paused: boolean,
+    pausedCount: number,
+    reconnectPolicy: ReconnectPolicy,
+    layoutSettings: LayoutSettings,
+    layoutPanelOpen: boolean,
 }
 
-class PixiAttestation extends PIXI.Container {
-    attestation: AttestationSummary;
-    source: PixiBlock | null;
-    target: PixiBlock | null;
-    head: PixiBlock | null;
-
-    constructor(attestation: AttestationSummary, source: PixiBlock | null, target: PixiBlock | null, head: PixiBlock | null) {
-        super();
-        this.attestation = attestation;
-        this.source = source;
-        this.target = target;
-        this.head = head;
-        this.name = "att_" + attestation.selfPtr;
-
-        const blockImg = new PIXI.Sprite(PIXI.Texture.from("attestation"));
-        this.addChild(blockImg);
-        this.width = 7;
-        this.height = 7;
-    }
-
-    // draw a line between attestation and block
-    drawBlockRelation(g: PIXI.Graphics) {
-        const attPos = this.toGlobal(ZERO_POS);
+interface MainProps extends RouteComponentProps<{name?: string, kind?: string, id?: string}> {
 
-        // Source
-        if (this.source) {
-            const sourcePos = this.source.toGlobal(ZERO_POS);
-            g.moveTo(attPos.x, attPos.y);
-            g.lineStyle(1, 0xff0000, 1.0);
-            g.lineTo(sourcePos.x, sourcePos.y);
-        }
-
-        // Target
-        if (this.target) {
-            const targetPos = this.target.toGlobal(ZERO_POS);
-            g.moveTo(attPos.x, attPos.y);
-            g.lineStyle(1, 0x00ff00, 1.0);
-            g.lineTo(targetPos.x, targetPos.y);
-        }
-        // Head
-        if (this.head) {
-            const headPos = this.head.toGlobal(ZERO_POS);
-            g.moveTo(attPos.x, attPos.y);
-            g.lineStyle(1, 0x0000ff, 1.0);
-            g.lineTo(headPos.x, headPos.y);
-        }
-    }
-}
-
-type TreeEntry = {
-    parent: BlockPtr;
-    slot: Slot;
-    children: Array<BlockPtr>;
 }
 
-class World {
-    app: PIXI.Application;
-
-    valCount: number = 0;
-    valGridWidth: number = 100;
-    valGridHeight: number = 100;
-
-    blocks: PIXI.Container;
-    attestations: PIXI.Container;
-    validators: PIXI.Container;
-
-    head: Array<HeadSummary> = [];
-    finalized: Array<BlockPtr> = [];
-
-    relationLines: PIXI.Graphics;
-
-    tree: Record<BlockPtr, TreeEntry> = {};
-
-    nextDiffIndex: number | null = null;
-
-    constructor(app: PIXI.Application) {
-        this.app = app;
-
-        app.stage.interactive = true;
-        app.stage.buttonMode = true;
-        app.stage.on('click', this.onClick);
-
-        // Pixi black magic: make background and click events consistent with a view-port filling rectangle.
-        const rect = new PIXI.Graphics()
-            .beginFill(0x000000)
-            .drawRect(0, 0, this.app.view.width, this.app.view.height)
-            .endFill();
+type WSCloser = () => void;
 
-        this.app.stage.addChild(rect);
+export class Main extends Component<MainProps, MainState> {
 
-        this.validators = new PIXI.Container();
-        app.stage.addChild(this.validators);
-        this.validators.on('click', (obj: PixiValidator) => {
-            console.log("clicked validator: ", obj);
-        });
+    private _sendWS: undefined | ((msg: string | ArrayBufferView) => void);
+    private _closeWS: undefined | WSCloser;
+    // connect again right away, instead of waiting for the next retry
+    private _reconnectWS: undefined | (() => void);
 
-        this.blocks = new PIXI.Container();
-        app.stage.addChild(this.blocks);
-        this.blocks.on('click', (obj: PixiBlock) => {
-            console.log("clicked block: ", obj);
-        });
+    private _pixiContainer: null | HTMLDivElement = null;
+    private world: undefined | World;
+    private store: ChainStore = new ChainStore();
+    private sync: DiffSync;
+    private _syncCheckInterval: undefined | number;
+    // media query that changes when the window moves to a screen with another device pixel ratio
+    private _resolutionQuery: null | MediaQueryList = null;
+    private _unmounted: boolean = false;
 
-        this.attestations = new PIXI.Container();
-        app.stage.addChild(this.attestations);
-        this.attestations.on('click', (obj: PixiAttestation) => {
-            console.log("clicked attestation: ", obj);
-        });
+    private recorder: Recorder = new Recorder();
+    // plays a loaded recording instead of the live stream, if any
+    private player: Player | null = null;
 
-        this.relationLines = new PIXI.Graphics();
-        this.relationLines.width = app.view.width;
-        this.relationLines.height = app.view.height;
-        // this.relationLines.position.set(app.view.width * 0.5, app.view.height * 0.5);
-        this.app.stage.addChild(this.relationLines);
+    private alerts: AlertEngine;
+    private events: EventTracker = new EventTracker();
+    // follows the store for alerts and events
+    private unsubscribeStore: undefined | (() => void);
 
-        // put initial validators into view
-        this.updateValSet(this.valCount)
-    }
+    private decodeStats: DecodeStats = new DecodeStats();
+    private streamMetrics: StreamMetrics = new StreamMetrics();
 
-    // TODO: add pruning function
+    // updates received while paused, null when not paused
+    private pausedMessages: Array<RecordedMessage> | null = null;
 
+    state: Readonly<MainState>;
 
-    updateValSet(newValCount: number) {
-        // add new validators
-        for (let vi = this.valCount; vi < newValCount; vi++) {
-            const val = new PixiValidator(vi);
-            this.validators.addChild(val);
+    constructor(props: MainProps) {
+        super(props);
+        this.sync = new DiffSync(this.store, this.requestResync);
+        const alertSettings = loadAlertSettings();
+        this.alerts = new AlertEngine(alertSettings);
+        const networks = loadNetworks();
+        const network = resolveNetwork(networks, props.match.params.name, props.location.search);
+        this.state = {
+            loaded: false,
+            wsOpen: false,
+            networks: networks,
+            network: network,
+            networkSettingsOpen: false,
+            followHead: true,
+            recording: false,
+            recordedCount: 0,
+            replayError: null,
+            colorMode: loadColorMode(),
+            voteLineFilter: loadSetting(VOTE_LINE_FILTER_KEY, defaultVoteLineFilter),
+            committeeCell: null,
+            alertSettings,
+            alertsOpen: false,
+            toast: null,
+            alertCount: 0,
+            eventCount: 0,
+            searchResult: null,
+            serverInfo: null,
+            compatibility: null,
+            serverError: null,
+            decodeFailures: 0,
+            debugOpen: loadSetting(DEBUG_OVERLAY_KEY, false),
+            connection: initialConnectionStatus,
+            paused: false,
+            pausedCount: 0,
+            reconnectPolicy: loadSetting<ReconnectPolicy>(RECONNECT_POLICY_KEY, 'resync'),
+            layoutSettings: loadLayoutSettings(),
+            layoutPanelOpen: false,
+        };
+        if (network !== null) {
+            this.connect(network.endpoint);
         }
-
-        this.updateValGridSize(newValCount);
-        this.valCount = newValCount;
     }
 
-    updateValGridSize(valCount: number) {
-        const margin = 20;
-        // sqrt * 1.5: spread over rectangular area, but not completely square preferably.
-        const desiredWidth = Math.floor(Math.sqrt(valCount) * 1.8);
-        const minWidth = Math.floor(Math.sqrt(valCount) * 0.5);
-        const effectiveAppWidth = (this.app.view.width - (margin * 2));
-        const valBoxSize = Math.max(Math.floor(effectiveAppWidth / desiredWidth), 4);
-        const width = Math.max(Math.floor(effectiveAppWidth / valBoxSize), minWidth);
-        const height = Math.ceil(valCount / width);
-        let fromValIndex = 0;
-        // check if grid dimensions have changed
-        if (this.valGridWidth === width && this.valGridHeight === height) {
-            // only update positions of new validators if the grid dimensions have not changed.
-            fromValIndex = this.valCount;
-        }
-        this.validators.position.set(margin, margin);
-        for (let i = fromValIndex; i < valCount; i++) {
-            const val = this.validators.getChildByName("val_" + i);
-            const x = i % width;
-            const y = Math.floor(i / width);
-            val.position.set(x * valBoxSize, y * valBoxSize);
-        }
-        this.valGridWidth = width;
-        this.valGridHeight = height;
-    }
-
-    // update the world contents, return too_old|ok|too_new based on diff aligning to current state.
-    updateWorld(diff: MemoryDiff): 'too_old' | 'ok' | 'too_new' {
-        if (this.nextDiffIndex != null) {
-            if (this.nextDiffIndex < diff.diffIndex) {
-                return 'too_new';
+    componentDidUpdate(prevProps: MainProps) {
+        const selection = this.currentSelection();
+        if (!sameSelection(selection, parseSelection(prevProps.match.params.kind, prevProps.match.params.id))) {
+            if (this.world) {
+                this.world.select(selection);
             }
-            if (this.nextDiffIndex > diff.diffIndex) {
-                return 'too_old';
+        }
+        if (prevProps.match.params.name !== this.props.match.params.name
+            || prevProps.location.search !== this.props.location.search) {
+            const network = resolveNetwork(this.state.networks, this.props.match.params.name, this.props.location.search);
+            const prev = this.state.network;
+            if (network === null || prev === null || network.endpoint !== prev.endpoint) {
+                this.switchNetwork(network);
             }
         }
+    }
 
-        this.head.push(...diff.head);
+    // Disconnect from the current data source, and drop all its data.
+    disconnect = () => {
+        if (this._closeWS) {
+            this._closeWS();
+            this._closeWS = undefined;
+        }
+        if (this.player !== null) {
+            this.player.stop();
+            this.player = null;
+        }
+        this.pausedMessages = null;
+        this.setState({paused: false, pausedCount: 0});
+        this.sync.reset();
+        this.store.reset();
+        this.alerts.setConnection('idle');
+    };
 
-        let maxValCount = this.valCount;
-        for (let head of diff.head) {
-            if (head.validatorCounts.total > maxValCount) maxValCount = head.validatorCounts.total;
+    // Disconnect from the current network, and start fresh on the new network.
+    switchNetwork = (network: Network | null) => {
+        this.disconnect();
+        // until the new server says otherwise
+        this.store.setLimits(defaultMemoryLimits);
+        this.decodeStats.reset();
+        this.streamMetrics.reset();
+        this.setState({
+            network, wsOpen: false, connection: initialConnectionStatus,
+            serverInfo: null, compatibility: null, serverError: null, decodeFailures: 0,
+        });
+        if (network !== null) {
+            this.connect(network.endpoint);
         }
-        // add new validators
-        if (maxValCount !== this.valCount) {
-            this.updateValSet(maxValCount);
+    };
+
+    toggleRecording = () => {
+        if (this.recorder.recording) {
+            this.recorder.stop();
+        } else {
+            this.recorder.start();
         }
+        this.setState({recording: this.recorder.recording, recordedCount: this.recorder.entries.length});
+    };
 
-        this.finalized.push(...diff.finalized);
+    downloadRecording = () => {
+        this.recorder.download();
+    };
 
-        // add new blocks
-        for (let b of diff.blocks) {
-            this.blocks.addChild(new PixiBlock(b));
+    loadRecording = (file: File) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+            try {
+                this.startReplay(parseRecording(reader.result as string));
+                this.setState({replayError: null});
+            } catch (err) {
+                console.log("could not load recording", err);
+                this.setState({replayError: "Could not load recording: " + err.message});
+            }
+        };
+        reader.readAsText(file);
+    };
 
-            const prevSelf = this.tree[b.selfPtr];
-            if(prevSelf) {
-                prevSelf.parent = b.parent;
-                prevSelf.slot = b.slot;
+    // replays go through the same diff syncing as the live stream
+    playbackTarget: PlaybackTarget = {
+        reset: () => {
+            this.sync.reset();
+            this.store.reset();
+        },
+        apply: (msg: RecordedMessage) => {
+            if (msg.kind === 'diff') {
+                this.sync.push(msg.diff);
             } else {
-                this.tree[b.selfPtr] = {
-                    parent: b.parent,
-                    slot: b.slot,
-                    children: [b.selfPtr]
-                }
+                this.applySnapshot(msg.snapshot);
             }
-            const prevParent = this.tree[b.parent];
-            if (prevParent) {
-                if (!prevSelf || prevSelf.parent == 0) { // don't add twice, only when new or previously unset
-                    prevParent.children.push(b.selfPtr)
-                }
+        },
+        batch: (fn: () => void) => {
+            const world = this.world;
+            if (world) {
+                world.suspend();
+                fn();
+                world.resume();
             } else {
-                this.tree[b.parent] = {
-                    parent: 0,
-                    slot: 0,
-                    children: [b.selfPtr]
-                }
-            }
-        }
-        // add new attestations
-        for (let a of diff.attestations) {
-            this.attestations.addChild(new PixiAttestation(a,
-                this.getBlock(a.source), this.getBlock(a.target), this.getBlock(a.head)));
-        }
-        // TODO: layout blocks and attestations (batched)
-        for (let vote of diff.latestVotes) {
-            const val = this.getValidator(vote.validatorIndex);
-            if (val === null) {
-                continue;
-            }
-            const att = this.getAttestation(vote.attestationPtr);
-            if (att === null) {
-                continue;
+                fn();
             }
-            val.addVote(att);
-        }
+        },
+    };
+
+    // stop the live stream, and play the recording instead
+    startReplay = (entries: Array<RecordedMessage>) => {
+        this.disconnect();
+        this.setState({wsOpen: false});
+        this.player = new Player(entries, this.playbackTarget, () => this.forceUpdate());
+        this.player.play();
+    };
 
-        this.layoutDag();
-        this.drawRelations();
+    exitReplay = () => {
+        this.switchNetwork(this.state.network);
+    };
 
-        this.nextDiffIndex = diff.diffIndex + 1;
-        return 'ok';
+    currentSelection(): Selection | null {
+        return parseSelection(this.props.match.params.kind, this.props.match.params.id);
     }
 
-    layoutDag() {
-        // order index of each block within their slot
-        const order: Record<BlockPtr, number> = {};
-        // blocks known for each slot
-        const slotHeights: Record<Slot, number> = {};
+    // navigate to the route of the selection, on the current network
+    navigateSelection = (sel: Selection | null) => {
+        const name = this.props.match.params.name;
+        const base = name === undefined ? "" : "/net/" + encodeURIComponent(name);
+        const path = base + "/" + (sel === null ? "" : selectionPath(sel));
+        this.props.history.push(path + this.props.location.search);
+    };
 
-        const head = this.head[this.head.length-1];
-        if (!head) {
-            return
+    setFollowHead = (followHead: boolean) => {
+        this.setState({followHead});
+        if (this.world) {
+            this.world.setFollowHead(followHead);
         }
-        order[head.headBlock] = 0;
+    };
 
-        const process_block = (b: BlockPtr) => {
-            const treeData = this.tree[b];
-            if (!treeData) {
-                return
-            }
-            if (slotHeights.hasOwnProperty(treeData.slot)) {
-                slotHeights[treeData.slot] += 1
-            } else {
-                slotHeights[treeData.slot] = 1
-            }
-            order[b] = slotHeights[treeData.slot] - 1;
-            for (let child of treeData.children) {
-                if (!order.hasOwnProperty(child)) {
-                    process_block(child)
-                }
-            }
-        };
-        // walk from the head back up the tree, and order blocks as we go.
-        // Every time we find unseen children nodes, we order them up later in the slot column.
-        let block = head.headBlock;
-        while (true) {
-            const treeData = this.tree[block];
-            if(!treeData) {
-                break
-            }
-            process_block(block);
-            block = treeData.parent;
-            if(block == 0) {
-                break;
-            }
+    setColorMode = (colorMode: ValidatorColorMode) => {
+        saveSetting(COLOR_MODE_KEY, colorMode);
+        this.setState({colorMode});
+        if (this.world) {
+            this.world.setColorMode(colorMode);
         }
-        // move blocks to their position
-        const slotWidth = 30;
-        const slotHeight = 40;
-        for (let block of this.blocks.children) {
-            const blockSummary = (block as PixiBlock).block;
-            const slotOrder = order[blockSummary.selfPtr];
-            block.position.set(blockSummary.slot * slotWidth, slotOrder * slotHeight);
-            // console.log("block ", blockSummary.selfPtr, " at ", block.position.x, block.position.y);
-        }
-        const attOffsetX = 10;
-        const attOffsetY = 8;
-        const attMarginX = 10;
-        const attMarginY = 20;
-        const attCounts: Record<BlockPtr, number> = {};
-        for (let att of this.attestations.children) {
-            const attSummary = (att as PixiAttestation).attestation;
-            if (attCounts.hasOwnProperty(attSummary.head)) {
-                attCounts[attSummary.head] += 1
-            } else {
-                attCounts[attSummary.head] = 1
-            }
-            let slotOrder = 0;
-            if (order.hasOwnProperty(attSummary.head)) {
-                slotOrder = order[attSummary.head];
-            }
-            const attOrder = attCounts[attSummary.head] - 1;
-            // offset-y a little for each attestation that is part of the block
-            att.position.set(attSummary.slot * slotWidth + attOffsetX + attMarginX, slotOrder * slotHeight + (attOrder * attOffsetY) + attMarginY);
-            // console.log("att ", attSummary.selfPtr, " at ", att.position.x, att.position.y);
-        }
-        const dagOffsetY = Math.floor(this.app.view.height * 0.65);
-        // console.log("dagOffsetY: ", dagOffsetY);
-        this.attestations.position.set(-head.slot * slotWidth + this.app.view.width * 0.9, dagOffsetY);
-        this.blocks.position.set(-head.slot * slotWidth + this.app.view.width * 0.9, dagOffsetY);
-        // console.log("blocks at ", this.blocks.position.x, this.blocks.position.y);
-    }
-
-    getBlock = (blockPtr: BlockPtr): PixiBlock | null => {
-        return this.blocks.getChildByName("block_"+blockPtr) as (PixiBlock | null);
     };
-    getAttestation = (attPtr: AttestationPtr): PixiAttestation | null => {
-        return this.attestations.getChildByName("att_"+attPtr) as (PixiAttestation | null);
+
+    setVoteLineFilter = (voteLineFilter: VoteLineFilter) => {
+        saveSetting(VOTE_LINE_FILTER_KEY, voteLineFilter);
+        this.setState({voteLineFilter});
+        if (this.world) {
+            this.world.setVoteLineFilter(voteLineFilter);
+        }
     };
-    getValidator = (vi: ValidatorIndex): PixiValidator | null => {
-        return this.validators.getChildByName("val_"+vi) as (PixiValidator | null);
+
+    toggleDebug = () => {
+        const debugOpen = !this.state.debugOpen;
+        saveSetting(DEBUG_OVERLAY_KEY, debugOpen);
+        this.setState({debugOpen});
     };
 
-    drawRelations() {
-        this.relationLines.clear();
-        for (let block of this.blocks.children) {
-            (block as PixiBlock).drawParentRelation(this.relationLines, this.getBlock);
+    connectionLabel(): string {
+        if (this.player !== null) {
+            return "replay";
         }
-        for (let val of this.validators.children) {
-            (val as PixiValidator).drawVoteRelation(this.relationLines);
-        }
-        for (let att of this.attestations.children) {
-            (att as PixiAttestation).drawBlockRelation(this.relationLines);
+        if (this.state.network === null) {
+            return "no network";
         }
+        return this.state.wsOpen ? "open" : "closed";
     }
 
-    onClick = (e: any) => {
-        const pos = e.data.getLocalPosition(this.app.stage);
-        console.log("click event: ", pos);
+    setLayoutSettings = (layoutSettings: LayoutSettings) => {
+        saveSetting(LAYOUT_SETTINGS_KEY, layoutSettings);
+        this.setState({layoutSettings});
+        if (this.world) {
+            this.world.setLayoutSettings(layoutSettings);
+        }
     };
 
-}
+    resetZoom = () => {
+        if (this.world) {
+            this.world.resetZoom();
+        }
+    };
 
-type MainState = {
-    loaded: boolean,
-    wsOpen: boolean,
-}
+    selectNetwork = (network: Network) => {
+        this.setState({networkSettingsOpen: false});
+        this.props.history.push("/net/" + encodeURIComponent(network.name));
+    };
 
-interface MainProps {
+    changeNetworks = (networks: Array<Network>) => {
+        saveNetworks(networks);
+        this.setState({networks});
+    };
 
-}
+    onStatusWS = (open: boolean) => {
+        this.alerts.setConnection(open ? 'open' : 'closed');
+        this.setState({
+            wsOpen: open,
+        });
+        if (open) {
+            this.setState({connection: connectedStatus});
+        }
+    };
 
-type WSCloser = () => void;
+    reconnect = () => {
+        if (this._reconnectWS) {
+            this._reconnectWS();
+            this.setState({connection: {...this.state.connection, phase: 'reconnecting', retryAt: Date.now()}});
+        }
+    };
 
-export class Main extends Component<MainProps, MainState> {
+    // The diffs sent while disconnected are lost, continue as the reconnect policy says.
+    onReconnected = () => {
+        if (this.state.reconnectPolicy === 'reset') {
+            if (this.pausedMessages !== null) {
+                this.pausedMessages = [];
+                this.setState({pausedCount: 0});
+            }
+            this.sync.reset();
+            this.store.reset();
+        } else if (this.store.nextDiffIndex !== null) {
+            // keep showing the old data until the snapshot arrives
+            this.sync.requestSnapshot();
+        }
+    };
 
-    private _sendWS: undefined | ((msg: ArrayBufferView) => void);
-    private _closeWS: undefined | WSCloser;
+    setReconnectPolicy = (reconnectPolicy: ReconnectPolicy) => {
+        saveSetting(RECONNECT_POLICY_KEY, reconnectPolicy);
+        this.setState({reconnectPolicy});
+    };
 
-    private _pixiContainer: null | HTMLDivElement = null;
-    private world: undefined | World;
+    togglePause = () => {
+        if (this.pausedMessages === null) {
+            this.pausedMessages = [];
+            this.setState({paused: true, pausedCount: 0});
+        } else {
+            this.resumeStream();
+        }
+    };
 
-    state: Readonly<MainState> = {
-        loaded: false,
-        wsOpen: false,
+    // apply what arrived while paused in one go, a gap from dropped updates resyncs like any other gap
+    resumeStream = () => {
+        const buffered = this.pausedMessages || [];
+        this.pausedMessages = null;
+        this.setState({paused: false, pausedCount: 0});
+        this.playbackTarget.batch(() => {
+            for (let msg of buffered) {
+                this.playbackTarget.apply(msg);
+            }
+        });
     };
 
-    constructor(props: MainProps) {
-        super(props);
-        this.setupWS();
-    }
+    // Keep the update for later if paused. Returns false if it can be applied now.
+    bufferPaused = (msg: RecordedMessage): boolean => {
+        if (this.pausedMessages === null) {
+            return false;
+        }
+        this.pausedMessages.push(msg);
+        if (this.pausedMessages.length > MAX_PAUSED_MESSAGES) {
+            this.pausedMessages.shift();
+        }
+        this.setState({pausedCount: this.pausedMessages.length});
+        return true;
+    };
 
-    onStatusWS = (open: boolean) => {
-        this.setState({
-            wsOpen: open,
-        })
+    // check the alert rules, and show the new alerts
+    evaluateAlerts = () => {
+        const fired = this.alerts.evaluate(this.store);
+        if (fired.length === 0) {
+            return;
+        }
+        this.setState({toast: fired[fired.length - 1], alertCount: this.alerts.history.length});
+        if (this.state.alertSettings.notifications && typeof Notification !== "undefined"
+            && Notification.permission === "granted") {
+            for (let alert of fired) {
+                const rule = alertRules.find(r => r.id === alert.rule);
+                new Notification("eth2wtf: " + (rule ? rule.label : alert.rule), {body: alert.message});
+            }
+        }
+    };
+
+    changeAlertSettings = (alertSettings: AlertSettings) => {
+        if (alertSettings.notifications && !this.state.alertSettings.notifications
+            && typeof Notification !== "undefined" && Notification.permission === "default") {
+            Notification.requestPermission().catch(e => console.log("could not request notification permission", e));
+        }
+        saveSetting(ALERT_SETTINGS_KEY, alertSettings);
+        this.alerts.settings = alertSettings;
+        this.setState({alertSettings});
     };
 
-    setupWS = () => {
-        const rws = new ReconnectingWebSocket('ws://localhost:4000/ws', [], {debug: true});
-        rws.addEventListener('close', () => this.onStatusWS(false));
-        rws.addEventListener('open', () => this.onStatusWS(true));
+    clearAlertHistory = () => {
+        this.alerts.clearHistory();
+        this.setState({alertCount: 0});
+    };
+
+    // connect to the websocket endpoint, or start the simulator for a simulator endpoint.
+    connect = (endpoint: string) => {
+        this.alerts.setConnection('closed');
+        if (endpoint.startsWith(SIMULATOR_ENDPOINT)) {
+            const slotTime = parseInt(endpoint.slice(SIMULATOR_ENDPOINT.length));
+            this.alerts.slotTime = slotTime > 0 ? slotTime : DEFAULT_SIM_SLOT_TIME;
+            this.setupSimulator(this.alerts.slotTime);
+        } else {
+            this.alerts.slotTime = SECONDS_PER_SLOT * 1000;
+            this.setupWS(endpoint);
+        }
+    };
+
+    // Generate the diffs locally, one per slot time, instead of receiving them from a server.
+    setupSimulator = (slotTime: number) => {
+        const sim = new ChainSimulator();
+        const interval = window.setInterval(() => {
+            if (!this.state.wsOpen) {
+                this.onStatusWS(true);
+            }
+            this.onDiff(sim.next());
+        }, slotTime);
+        this._closeWS = () => {
+            window.clearInterval(interval);
+        };
+    };
+
+    setupWS = (endpoint: string) => {
+        const rws = new ReconnectingWebSocket(endpoint, SUBPROTOCOLS, socketOptions(defaultReconnectOptions));
+        rws.binaryType = 'arraybuffer';
+        // closed on purpose, not by the connection dropping
+        let closed = false;
+        let wasOpen = false;
+        rws.addEventListener('close', () => {
+            if (closed) {
+                return;
+            }
+            // the socket already scheduled the next attempt
+            this.setState({connection: statusAfterClose(defaultReconnectOptions, rws.retryCount, navigator.onLine)});
+            this.onStatusWS(false);
+        });
+        rws.addEventListener('open', () => {
+            // the server says hello again after reconnecting, possibly after an upgrade
+            this.setState({serverInfo: null, compatibility: null, serverError: null});
+            this.onStatusWS(true);
+            if (wasOpen) {
+                this.onReconnected();
+            }
+            wasOpen = true;
+        });
         rws.addEventListener('message', this.onMessageEvent);
         this._sendWS = rws.send.bind(rws);
+        this._reconnectWS = () => rws.reconnect();
         this._closeWS = () => {
+            closed = true;
             this._sendWS = undefined;
+            this._reconnectWS = undefined;
             rws.close();
         };
     };
 
-    sendWSMsg = ((msg: DataView) => {
+    sendWSMsg = ((msg: string | ArrayBufferView) => {
         if (this._sendWS) {
             console.log("sending msg: ", msg);
             this._sendWS(msg);
@@ -658,41 +573,183 @@ export class Main extends Component<MainProps, MainState> {
         }
     });
 
+    requestResync = (req: ResyncRequest) => {
+        console.log("requesting resync: ", req);
+        this.sendWSMsg(encResyncRequest(req));
+    };
+
     onMessageEvent = (ev: MessageEvent) => {
-        const msg: string = ev.data;
-        console.log("received msg: ", msg);
-        const msgData: any = JSON.parse(msg);
-        const diffRes: JsonResult<MemoryDiff> = decMemoryDiff.decode(msgData);
-        if (diffRes instanceof JsonOk) {
-            const diff = (diffRes as JsonOk<MemoryDiff>).value;
-            if (this.world) {
-                this.world.updateWorld(diff);
-            } else {
-                console.log("cannot process diff; uninitialized world");
-            }
+        this.streamMetrics.onMessage(ev.data instanceof ArrayBuffer ? ev.data.byteLength : ev.data.length);
+        const res: DecodeResult = ev.data instanceof ArrayBuffer
+            ? decodeBinary(ev.data)
+            : decodeJsonMessage(ev.data);
+        if (res.ok === true) {
+            this.onServerMessage(res.msg);
         } else {
-            const err = (diffRes as JsonErr<MemoryDiff>).error;
-            console.log('could not decode memory diff to update world', err);
+            this.onDecodeFailure(res.failure);
         }
     };
 
+    onServerMessage = (msg: ServerMessage) => {
+        switch (msg.type) {
+            case 'diff':
+                this.onDiff(msg.diff);
+                break;
+            case 'snapshot':
+                this.onSnapshot(msg.snapshot);
+                break;
+            case 'info': {
+                const compatibility = checkCompatibility(msg.info.protocol);
+                if (compatibility === 'incompatible') {
+                    // its messages do not mean what this client thinks they mean: stop instead of showing garbage.
+                    console.log("server protocol is not compatible, disconnecting: ", msg.info.protocol);
+                    this.disconnect();
+                    this.setState({
+                        serverInfo: msg.info, compatibility, wsOpen: false, connection: stoppedStatus,
+                        serverError: "disconnected, the server protocol is not compatible with this client",
+                    });
+                    break;
+                }
+                if (msg.info.limits !== undefined && this.store.setLimits(msg.info.limits)) {
+                    // the store dropped its data, the buffered diffs are for the old memory
+                    this.sync.reset();
+                }
+                this.setState({serverInfo: msg.info, compatibility});
+                break;
+            }
+            case 'error':
+                console.log("server error: ", msg.error.message);
+                this.setState({serverError: msg.error.message});
+                break;
+        }
+    };
+
+    onDecodeFailure = (failure: DecodeFailure) => {
+        console.log("could not decode message at ", failure.path, ": ", failure.error);
+        this.decodeStats.add(failure);
+        this.setState({decodeFailures: this.decodeStats.failures});
+    };
+
+    onDiff = (diff: MemoryDiff) => {
+        this.streamMetrics.onDiff(diff.diffIndex);
+        if (this.recorder.recording) {
+            this.recorder.recordDiff(diff);
+            this.setState({recordedCount: this.recorder.entries.length});
+        }
+        if (!this.bufferPaused({t: Date.now(), kind: 'diff', diff})) {
+            this.sync.push(diff);
+        }
+    };
+
+    onSnapshot = (snapshot: Snapshot) => {
+        this.streamMetrics.onDiff(snapshot.diffIndex);
+        if (this.recorder.recording) {
+            this.recorder.recordSnapshot(snapshot);
+            this.setState({recordedCount: this.recorder.entries.length});
+        }
+        if (!this.bufferPaused({t: Date.now(), kind: 'snapshot', snapshot})) {
+            this.applySnapshot(snapshot);
+        }
+    };
+
+    applySnapshot = (snapshot: Snapshot) => {
+        this.store.loadSnapshot(snapshot);
+        this.sync.onResynced();
+    };
+
     componentDidMount() {
-        // TODO scale stage to fix resolution problems
-        const loader = PIXI.Loader.shared;
-        PIXI.Loader.registerPlugin(PIXI.TextureLoader);
+        // gaps at the end of the stream only show when no more diffs come in, so check regularly.
+        // also check the alerts that do not depend on new data, like being disconnected.
+        this._syncCheckInterval = window.setInterval(() => {
+            this.sync.check();
+            this.evaluateAlerts();
+        }, 1000);
+        this.unsubscribeStore = this.store.subscribe(update => {
+            if (update.reset) {
+                this.alerts.resetChain();
+            }
+            if (update.diff !== null) {
+                this.evaluateAlerts();
+            }
+            if (this.events.onUpdate(this.store, update).length > 0 || update.reset) {
+                this.setState({eventCount: this.events.events.length});
+            }
+        });
+
+        window.addEventListener('resize', this.onResize);
+        this.watchResolution();
 
+        // the shared loader keeps the textures when the component is mounted again
+        const loader = PIXI.Loader.shared;
+        if (loader.resources['validator']) {
+            this.setupWorld();
+            return;
+        }
         loader
             .add('block', "block.png")
             .add('attestation', "attestation.png")
             .add('validator', "validator.png")
             .load((loader: PIXI.Loader, resources: Partial<Record<string, PIXI.LoaderResource>>) => {
-                this.setupWorld();
+                if (!this._unmounted) {
+                    this.setupWorld();
+                }
             })
             .onError.add(() => {
                 console.log("failed to load resources")
             });
     }
 
+    onResize = () => {
+        if (this.world && this._pixiContainer !== null) {
+            this.world.resize(this._pixiContainer.offsetWidth || 500, this._pixiContainer.offsetHeight || 500,
+                window.devicePixelRatio);
+        }
+    };
+
+    // Resize events do not fire for every change of the device pixel ratio, e.g. when moving to another screen.
+    // The query matches the current ratio, and is replaced by one for the new ratio when it changes.
+    watchResolution = () => {
+        this.unwatchResolution();
+        this._resolutionQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`);
+        this._resolutionQuery.addListener(this.onResolutionChange);
+    };
+
+    unwatchResolution = () => {
+        if (this._resolutionQuery !== null) {
+            this._resolutionQuery.removeListener(this.onResolutionChange);
+            this._resolutionQuery = null;
+        }
+    };
+
+    onResolutionChange = () => {
+        this.watchResolution();
+        this.onResize();
+    };
+
+    componentWillUnmount() {
+        this._unmounted = true;
+        if (this._syncCheckInterval !== undefined) {
+            window.clearInterval(this._syncCheckInterval);
+            this._syncCheckInterval = undefined;
+        }
+        window.removeEventListener('resize', this.onResize);
+        this.unwatchResolution();
+        if (this.unsubscribeStore) {
+            this.unsubscribeStore();
+        }
+        if (this.world) {
+            this.world.destroy();
+            this.world = undefined;
+        }
+        if (this._closeWS) {
+            this._closeWS();
+            this._closeWS = undefined;
+        }
+        if (this.player !== null) {
+            this.player.stop();
+        }
+    }
+
     setupWorld = () => {
         if (this._pixiContainer === null) {
             console.log("Error: component mounted before pixi container ref was completed.");
@@ -703,26 +760,199 @@ export class Main extends Component<MainProps, MainState> {
             backgroundColor: 0xaaaaff,
             width: (this._pixiContainer.offsetWidth || 500),
             height: (this._pixiContainer.offsetHeight || 500),
+            resolution: window.devicePixelRatio,
+            // keep the CSS size of the canvas at the view size, whatever the resolution
+            autoDensity: true,
             sharedLoader: true,
             sharedTicker: true
         });
 
-        this.world = new World(app);
+        const world = new World(app, this.store, {
+            onSelect: this.navigateSelection,
+            onFollowHeadChange: (followHead: boolean) => this.setState({followHead}),
+        }, this.state.colorMode);
+        world.setVoteLineFilter(this.state.voteLineFilter);
+        world.setLayoutSettings(this.state.layoutSettings);
+        world.select(this.currentSelection());
+        this.world = world;
+        this.setState({loaded: true});
 
         this._pixiContainer.appendChild(app.view);
 
+        const bench = new URLSearchParams(this.props.location.search).get(BENCHMARK_PARAM);
+        if (bench !== null) {
+            this.runBenchmark(parseInt(bench) || defaultBenchmarkOptions.validators);
+        }
+
         // TODO start rendering loop for pixi ("request frame" loop to play nice with the browser?)
     };
 
+    // Replace the data source with generated diffs, and time how long each takes to apply and render.
+    runBenchmark = (validators: number) => {
+        if (!this.world) {
+            return;
+        }
+        const app = this.world.app;
+        this.disconnect();
+        const result = runBenchmark({validators}, (diff: MemoryDiff) => {
+            this.sync.push(diff);
+            app.renderer.render(app.stage);
+        });
+        console.log("benchmark result: ", result);
+    };
+
+    selectCommittee = (committeeCell: CommitteeCellRef | null, attestations: Array<AttestationPtr>) => {
+        this.setState({committeeCell});
+        if (this.world) {
+            this.world.highlightAttestations(attestations);
+        }
+    };
+
+    // select what the search text refers to, the world centres the selection
+    search = (text: string) => {
+        const searchResult = search(this.store, text);
+        this.setState({searchResult});
+        if (searchResult.kind === 'found') {
+            if (sameSelection(searchResult.selection, this.currentSelection()) && this.world) {
+                // re-center, e.g. after the view moved away from the selection
+                this.world.select(searchResult.selection);
+            } else {
+                this.navigateSelection(searchResult.selection);
+            }
+        }
+    };
+
+    showEpoch = (epoch: Epoch) => {
+        if (this.world) {
+            this.world.showEpoch(epoch);
+        }
+    };
+
+    // jump to where the event happened in the DAG
+    showEvent = (event: ChainEvent) => {
+        if (!this.world) {
+            return;
+        }
+        if (event.kind === 'reorg') {
+            const focus = event.commonAncestor || event.oldBranch[event.oldBranch.length - 1];
+            this.world.showBranches(focus, [
+                {blocks: event.oldBranch, color: REORG_OLD_COLOR},
+                {blocks: event.newBranch, color: REORG_NEW_COLOR},
+            ]);
+        } else if (event.kind === 'finalized' && event.block !== null) {
+            this.world.showBranches(event.block, [{blocks: [event.block], color: FINALIZED_EVENT_COLOR}]);
+        }
+    };
+
     render() {
         return (
             <div className="main-root">
                 <Paper className="overlay infoOverlay">
-                    <Typography component="p">
-                        Work in progress
-                    </Typography>
+                    <SearchBox result={this.state.searchResult} onSearch={this.search}/>
+                    <ProtocolStatus info={this.state.serverInfo} compatibility={this.state.compatibility}
+                                    serverError={this.state.serverError} decodeStats={this.decodeStats}/>
+                    <FinalityIndicator store={this.store} threshold={this.state.alertSettings.finalityEpochs}
+                                       onThresholdChange={finalityEpochs =>
+                                           this.changeAlertSettings({...this.state.alertSettings, finalityEpochs})}/>
+                    <StatsOverlay store={this.store}/>
+                    <Button size="small" onClick={() => this.setState({networkSettingsOpen: true})}>
+                        {this.state.network === null ? "no network" : this.state.network.name}
+                    </Button>
+                    <Button size="small" onClick={() => this.setState({alertsOpen: true})}>
+                        Alerts ({this.state.alertCount})
+                    </Button>
+                    <Button size="small" onClick={this.toggleDebug}>
+                        {this.state.debugOpen ? "Hide debug" : "Debug"}
+                    </Button>
+                </Paper>
+
+                {this.state.debugOpen && (
+                    <Paper className="overlay debugOverlay">
+                        <DebugOverlay store={this.store} sync={this.sync} metrics={this.streamMetrics}
+                                      decodeStats={this.decodeStats} world={this.world}
+                                      connection={this.connectionLabel()}/>
+                    </Paper>
+                )}
+
+                <Paper className="overlay cameraOverlay">
+                    <FormControlLabel label="Follow head" control={
+                        <Switch checked={this.state.followHead} onChange={(e, checked) => this.setFollowHead(checked)}/>
+                    }/>
+                    <Button size="small" onClick={this.resetZoom}>Reset zoom</Button>
+                </Paper>
+
+                <Paper className="overlay legendOverlay">
+                    <ValidatorLegend mode={this.state.colorMode} onModeChange={this.setColorMode}/>
+                    <VoteLineControls filter={this.state.voteLineFilter} onChange={this.setVoteLineFilter}/>
+                </Paper>
+
+                <Paper className="overlay layoutOverlay">
+                    <LayoutSettingsPanel settings={this.state.layoutSettings}
+                                         onChange={this.setLayoutSettings}
+                                         onReset={() => this.setLayoutSettings({
+                                             ...defaultLayoutSettings, kind: this.state.layoutSettings.kind,
+                                         })}
+                                         open={this.state.layoutPanelOpen}
+                                         onToggle={() => this.setState({layoutPanelOpen: !this.state.layoutPanelOpen})}/>
+                </Paper>
+
+                <Paper className="overlay committeeOverlay">
+                    <CommitteeMatrix store={this.store} selected={this.state.committeeCell} onSelect={this.selectCommittee}/>
+                </Paper>
+
+                <Paper className="overlay timelineOverlay">
+                    <EventTimeline events={this.events.events} onSelect={this.showEvent}/>
+                </Paper>
+
+                <Paper className="overlay epochOverlay">
+                    <EpochStrip store={this.store} onSelect={this.showEpoch}/>
+                </Paper>
+
+                {this.player === null && (
+                    <Paper className="overlay connectionOverlay">
+                        <ConnectionBanner status={this.state.connection}
+                                          canReconnect={this._reconnectWS !== undefined}
+                                          onReconnect={this.reconnect}
+                                          paused={this.state.paused}
+                                          pausedCount={this.state.pausedCount}
+                                          onTogglePause={this.togglePause}
+                                          policy={this.state.reconnectPolicy}
+                                          onPolicyChange={this.setReconnectPolicy}/>
+                    </Paper>
+                )}
+
+                <Paper className="overlay replayOverlay">
+                    <ReplayControls recording={this.state.recording}
+                                    recordedCount={this.state.recordedCount}
+                                    onToggleRecording={this.toggleRecording}
+                                    onDownload={this.downloadRecording}
+                                    player={this.player}
+                                    onLoadFile={this.loadRecording}
+                                    onExitReplay={this.exitReplay}
+                                    error={this.state.replayError}/>
                 </Paper>
 
+                <Inspector store={this.store}
+                           selection={this.currentSelection()}
+                           onSelect={this.navigateSelection}
+                           onClose={() => this.navigateSelection(null)}/>
+
+                <NetworkSettings open={this.state.networkSettingsOpen}
+                                 networks={this.state.networks}
+                                 current={this.state.network}
+                                 onSelect={this.selectNetwork}
+                                 onChange={this.changeNetworks}
+                                 onClose={() => this.setState({networkSettingsOpen: false})}/>
+
+                <AlertsDialog open={this.state.alertsOpen}
+                              settings={this.state.alertSettings}
+                              history={this.alerts.history}
+                              onChange={this.changeAlertSettings}
+                              onClearHistory={this.clearAlertHistory}
+                              onClose={() => this.setState({alertsOpen: false})}/>
+
+                <AlertToast alert={this.state.toast} onClose={() => this.setState({toast: null})}/>
+
                 <div className="pixi-scene" ref={(el) => {
                     this._pixiContainer = el
                 }}/>
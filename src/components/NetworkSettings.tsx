@@ -0,0 +1,75 @@
+import React, {Component} from 'react';
+import {
+    Button, Dialog, DialogActions, DialogContent, DialogTitle, List, ListItem, ListItemSecondaryAction, ListItemText,
+    TextField
+} from "@material-ui/core";
+import {Network} from "../networks";
+
+interface NetworkSettingsProps {
+    open: boolean;
+    networks: Array<Network>;
+    current: Network | null;
+    onSelect: (network: Network) => void;
+    onChange: (networks: Array<Network>) => void;
+    onClose: () => void;
+}
+
+type NetworkSettingsState = {
+    newName: string;
+    newEndpoint: string;
+}
+
+export class NetworkSettings extends Component<NetworkSettingsProps, NetworkSettingsState> {
+
+    state: Readonly<NetworkSettingsState> = {
+        newName: "",
+        newEndpoint: "",
+    };
+
+    addNetwork = () => {
+        const name = this.state.newName.trim();
+        const endpoint = this.state.newEndpoint.trim();
+        if (name === "" || endpoint === "") {
+            return;
+        }
+        const networks = this.props.networks.filter(n => n.name !== name);
+        networks.push({name, endpoint});
+        this.props.onChange(networks);
+        this.setState({newName: "", newEndpoint: ""});
+    };
+
+    removeNetwork = (name: string) => {
+        this.props.onChange(this.props.networks.filter(n => n.name !== name));
+    };
+
+    render() {
+        const {open, networks, current, onSelect, onClose} = this.props;
+        return (
+            <Dialog open={open} onClose={onClose} fullWidth>
+                <DialogTitle>Networks</DialogTitle>
+                <DialogContent>
+                    <List dense>
+                        {networks.map(n => (
+                            <ListItem key={n.name} button selected={current !== null && current.name === n.name}
+                                      onClick={() => onSelect(n)}>
+                                <ListItemText primary={n.name} secondary={n.endpoint}/>
+                                <ListItemSecondaryAction>
+                                    <Button size="small" onClick={() => this.removeNetwork(n.name)}>Remove</Button>
+                                </ListItemSecondaryAction>
+                            </ListItem>
+                        ))}
+                    </List>
+                    <TextField label="Name" margin="dense" fullWidth value={this.state.newName}
+                               onChange={(e) => this.setState({newName: e.target.value})}/>
+                    <TextField label="Endpoint" margin="dense" fullWidth placeholder="wss://example.com/ws"
+                               value={this.state.newEndpoint}
+                               onChange={(e) => this.setState({newEndpoint: e.target.value})}/>
+                </DialogContent>
+                <DialogActions>
+                    <Button onClick={this.addNetwork}>Add</Button>
+                    <Button onClick={onClose} color="primary">Close</Button>
+                </DialogActions>
+            </Dialog>
+        )
+    }
+}
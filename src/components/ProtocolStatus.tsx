@@ -0,0 +1,51 @@
+import React from "react";
+import {Typography} from "@material-ui/core";
+import {Compatibility, PROTOCOL_VERSION, ServerInfo} from "../protocol";
+import {DecodeStats} from "../messages";
+import "./ProtocolStatus.css";
+
+interface ProtocolStatusProps {
+    // null until the server said hello, older servers never do
+    info: ServerInfo | null;
+    compatibility: Compatibility | null;
+    // last error message of the server
+    serverError: string | null;
+    decodeStats: DecodeStats;
+}
+
+const compatibilityNotes: Record<Compatibility, string> = {
+    compatible: "",
+    newer: ", newer than this client: new data is ignored",
+    incompatible: ", not compatible with this client",
+};
+
+// Protocol version of the server, server errors and messages that could not be decoded.
+const ProtocolStatus: React.FC<ProtocolStatusProps> = (props) => {
+    const {info, compatibility, serverError, decodeStats} = props;
+    const latest = decodeStats.recent.length > 0 ? decodeStats.recent[0] : null;
+    return (
+        <div className="protocol-status">
+            {info !== null && compatibility !== null && (
+                <Typography variant="caption" component="p"
+                            className={compatibility === 'incompatible' ? "protocol-problem" : ""}>
+                    {info.server || "Server"} protocol {info.protocol.major}.{info.protocol.minor}
+                    {compatibilityNotes[compatibility]}
+                    {compatibility === 'incompatible' && ` (client ${PROTOCOL_VERSION.major}.${PROTOCOL_VERSION.minor})`}
+                </Typography>
+            )}
+            {serverError !== null && (
+                <Typography variant="caption" component="p" className="protocol-problem">
+                    Server error: {serverError}
+                </Typography>
+            )}
+            {latest !== null && (
+                <Typography variant="caption" component="p" className="protocol-problem"
+                            title={Object.entries(decodeStats.byPath).map(([p, n]) => `${p || "(message)"}: ${n}`).join("\n")}>
+                    {decodeStats.failures} messages could not be decoded, last at {latest.path || "(message)"}: {latest.error}
+                </Typography>
+            )}
+        </div>
+    );
+};
+
+export default ProtocolStatus;
@@ -0,0 +1,77 @@
+import React, {useState} from "react";
+import {Button, MenuItem, Select, Slider, Typography} from "@material-ui/core";
+import {Player} from "../recording";
+
+const SPEEDS = [0.25, 0.5, 1, 2, 4, 8, 16, 64];
+
+interface ReplayControlsProps {
+    recording: boolean;
+    recordedCount: number;
+    onToggleRecording: () => void;
+    onDownload: () => void;
+    // the player of the loaded recording, null when showing the live stream
+    player: Player | null;
+    onLoadFile: (file: File) => void;
+    onExitReplay: () => void;
+    // why the last recording could not be loaded, if it failed
+    error: string | null;
+}
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString();
+
+// Record the live stream to a file, or play back a recorded file.
+const ReplayControls: React.FC<ReplayControlsProps> = (props) => {
+    const {player} = props;
+    // the slider position while dragging: seeking back replays from the start, so it only seeks once released.
+    const [dragPosition, setDragPosition] = useState<number | null>(null);
+    const shownPosition = player === null ? 0 : (dragPosition !== null ? dragPosition : player.position);
+    let fileInput: HTMLInputElement | null = null;
+    return (
+        <div className="replay-controls">
+            <input type="file" accept=".ndjson,.jsonl,.json" style={{display: "none"}} ref={el => fileInput = el}
+                   onChange={e => {
+                       const files = e.target.files;
+                       if (files && files.length > 0) {
+                           props.onLoadFile(files[0]);
+                       }
+                       e.target.value = "";
+                   }}/>
+            {player === null ? (
+                <React.Fragment>
+                    <Button size="small" onClick={props.onToggleRecording}>
+                        {props.recording ? "Stop recording" : "Record"}
+                    </Button>
+                    <Button size="small" disabled={props.recordedCount === 0} onClick={props.onDownload}>
+                        Download ({props.recordedCount})
+                    </Button>
+                    <Button size="small" onClick={() => fileInput && fileInput.click()}>Load recording</Button>
+                </React.Fragment>
+            ) : (
+                <React.Fragment>
+                    <Button size="small" onClick={() => player.playing ? player.pause() : player.play()}>
+                        {player.playing ? "Pause" : "Play"}
+                    </Button>
+                    <Select value={player.speed} onChange={e => player.setSpeed(Number(e.target.value))}>
+                        {SPEEDS.map(s => <MenuItem key={s} value={s}>{s}x</MenuItem>)}
+                    </Select>
+                    <Slider className="replay-seek" min={0} max={player.entries.length} step={1}
+                            value={shownPosition}
+                            onChange={(e, value) => setDragPosition(value as number)}
+                            onChangeCommitted={(e, value) => {
+                                setDragPosition(null);
+                                player.seek(value as number);
+                            }}/>
+                    <Typography variant="caption">
+                        {formatTime(dragPosition !== null && dragPosition > 0
+                            ? player.entries[dragPosition - 1].t : player.currentTime())} ({shownPosition}/{player.entries.length})
+                    </Typography>
+                    <Button size="small" onClick={() => fileInput && fileInput.click()}>Load</Button>
+                    <Button size="small" onClick={props.onExitReplay}>Back to live</Button>
+                </React.Fragment>
+            )}
+            {props.error !== null && <Typography variant="caption" color="error">{props.error}</Typography>}
+        </div>
+    );
+};
+
+export default ReplayControls;
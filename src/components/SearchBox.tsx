@@ -0,0 +1,44 @@
+import React, {Component} from 'react';
+import {TextField, Typography} from "@material-ui/core";
+import {SearchResult} from "../search";
+import "./SearchBox.css";
+
+interface SearchBoxProps {
+    // result of the last search, if any
+    result: SearchResult | null;
+    onSearch: (text: string) => void;
+}
+
+type SearchBoxState = {
+    text: string;
+}
+
+// Search a block root, slot, block, attestation or validator. Searches on enter.
+export class SearchBox extends Component<SearchBoxProps, SearchBoxState> {
+
+    state: Readonly<SearchBoxState> = {
+        text: "",
+    };
+
+    render() {
+        const result = this.props.result;
+        return (
+            <div className="search-box">
+                <TextField label="Search" margin="dense" fullWidth placeholder="0x root, slot, b 1, a 2, v 3"
+                           value={this.state.text}
+                           onChange={(e) => this.setState({text: e.target.value})}
+                           onKeyDown={(e) => {
+                               if (e.key === "Enter") {
+                                   this.props.onSearch(this.state.text);
+                               }
+                           }}/>
+                {result !== null && (
+                    <Typography variant="caption" component="p"
+                                className={result.kind === 'found' ? "search-found" : "search-not-found"}>
+                        {result.message}
+                    </Typography>
+                )}
+            </div>
+        );
+    }
+}
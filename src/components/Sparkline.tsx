@@ -0,0 +1,30 @@
+import React from "react";
+
+interface SparklineProps {
+    values: Array<number>;
+    width?: number;
+    height?: number;
+    color?: string;
+}
+
+// Tiny line chart of a series of values, scaled to fit between its min and max.
+const Sparkline: React.FC<SparklineProps> = ({values, width = 80, height = 16, color = "#4fb3bf"}) => {
+    if (values.length < 2) {
+        return <svg width={width} height={height}/>;
+    }
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    const range = max - min || 1;
+    const points = values.map((v, i) => {
+        const x = (i / (values.length - 1)) * width;
+        const y = height - 1 - ((v - min) / range) * (height - 2);
+        return x.toFixed(1) + "," + y.toFixed(1);
+    }).join(" ");
+    return (
+        <svg width={width} height={height}>
+            <polyline points={points} fill="none" stroke={color} strokeWidth={1}/>
+        </svg>
+    );
+};
+
+export default Sparkline;
@@ -0,0 +1,102 @@
+import React, {Component} from 'react';
+import {Table, TableBody, TableCell, TableRow, Typography} from "@material-ui/core";
+import {HeadSummary} from "../protocol";
+import {ChainStore} from "../store";
+import {ffgParticipation, formatGwei, previousEpochHead, slotToEpoch} from "../chain";
+import Sparkline from "./Sparkline";
+import "./StatsOverlay.css";
+
+interface StatsOverlayProps {
+    store: ChainStore;
+}
+
+type Stat = {
+    label: string;
+    value: (h: HeadSummary) => number;
+    format: (v: number) => string;
+}
+
+const formatCount = (v: number) => v.toLocaleString();
+const formatPercent = (v: number) => (v * 100).toFixed(1) + "%";
+
+const stats: Array<Stat> = [
+    {label: "Validators", value: h => h.validatorCounts.total, format: formatCount},
+    {label: "Active", value: h => h.validatorCounts.active, format: formatCount},
+    {label: "Eligible", value: h => h.validatorCounts.eligible, format: formatCount},
+    {label: "Slashed", value: h => h.validatorCounts.slashed, format: formatCount},
+    {label: "Exiting", value: h => h.validatorCounts.exiting, format: formatCount},
+    {label: "Withdrawable", value: h => h.validatorCounts.withdrawable, format: formatCount},
+    {label: "Total staked", value: h => h.totalStaked, format: formatGwei},
+    {label: "Avg. balance", value: h => h.avgBalance, format: formatGwei},
+    {label: "Deposit index", value: h => h.depositIndex, format: formatCount},
+    {label: "Eth1 deposits", value: h => h.eth1Data.depositCount, format: formatCount},
+    {label: "Prev. source", value: h => ffgParticipation(h.previousFFG, h.totalStaked).source, format: formatPercent},
+    {label: "Prev. target", value: h => ffgParticipation(h.previousFFG, h.totalStaked).target, format: formatPercent},
+    {label: "Prev. head", value: h => ffgParticipation(h.previousFFG, h.totalStaked).head, format: formatPercent},
+    {label: "Curr. source", value: h => ffgParticipation(h.currentFFG, h.totalStaked).source, format: formatPercent},
+    {label: "Curr. target", value: h => ffgParticipation(h.currentFFG, h.totalStaked).target, format: formatPercent},
+    {label: "Curr. head", value: h => ffgParticipation(h.currentFFG, h.totalStaked).head, format: formatPercent},
+];
+
+// Latest network statistics from the head summaries, with their history and change since the previous epoch.
+export class StatsOverlay extends Component<StatsOverlayProps> {
+
+    private unsubscribe: undefined | (() => void);
+
+    componentDidMount() {
+        this.unsubscribe = this.props.store.subscribe(update => {
+            if (update.reset || (update.diff !== null && update.diff.head.length > 0)) {
+                this.forceUpdate();
+            }
+        });
+    }
+
+    componentWillUnmount() {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+        }
+    }
+
+    renderDelta(stat: Stat, latest: HeadSummary, prev: HeadSummary | null) {
+        if (prev === null) {
+            return null;
+        }
+        const delta = stat.value(latest) - stat.value(prev);
+        if (delta === 0) {
+            return null;
+        }
+        return (
+            <span className={delta > 0 ? "stat-up" : "stat-down"}>
+                {(delta > 0 ? "+" : "-") + stat.format(Math.abs(delta))}
+            </span>
+        );
+    }
+
+    render() {
+        const heads = this.props.store.head;
+        const latest = this.props.store.latestHead();
+        if (latest === null) {
+            return <Typography component="p">Waiting for data...</Typography>;
+        }
+        const prev = previousEpochHead(heads);
+        return (
+            <React.Fragment>
+                <Typography component="p">
+                    Slot {latest.slot}, epoch {slotToEpoch(latest.slot)}, proposer {latest.proposerIndex}
+                </Typography>
+                <Table size="small" className="stats-table">
+                    <TableBody>
+                        {stats.map(stat => (
+                            <TableRow key={stat.label}>
+                                <TableCell>{stat.label}</TableCell>
+                                <TableCell align="right">{stat.format(stat.value(latest))}</TableCell>
+                                <TableCell align="right">{this.renderDelta(stat, latest, prev)}</TableCell>
+                                <TableCell><Sparkline values={heads.map(stat.value)}/></TableCell>
+                            </TableRow>
+                        ))}
+                    </TableBody>
+                </Table>
+            </React.Fragment>
+        );
+    }
+}
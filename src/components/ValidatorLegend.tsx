@@ -0,0 +1,28 @@
+import React from "react";
+import {MenuItem, Select, Typography} from "@material-ui/core";
+import {ValidatorColorMode, colorModes, cssColor, legends} from "../validatorColors";
+import "./ValidatorLegend.css";
+
+interface ValidatorLegendProps {
+    mode: ValidatorColorMode;
+    onModeChange: (mode: ValidatorColorMode) => void;
+}
+
+// Choose what the validator grid colors show, and explain the colors.
+const ValidatorLegend: React.FC<ValidatorLegendProps> = (props) => (
+    <div className="validator-legend">
+        <Select value={props.mode} onChange={e => props.onModeChange(e.target.value as ValidatorColorMode)}>
+            {colorModes.map(m => <MenuItem key={m.mode} value={m.mode}>{m.label}</MenuItem>)}
+        </Select>
+        <ul className="validator-legend-entries">
+            {legends[props.mode].map(entry => (
+                <li key={entry.label}>
+                    <span className="validator-legend-swatch" style={{background: cssColor(entry.color)}}/>
+                    <Typography variant="caption">{entry.label}</Typography>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
+export default ValidatorLegend;
@@ -0,0 +1,54 @@
+import React from "react";
+import {MenuItem, Select, TextField} from "@material-ui/core";
+import {VoteLineFilter} from "../voteLines";
+import "./VoteLineControls.css";
+
+interface VoteLineControlsProps {
+    filter: VoteLineFilter;
+    onChange: (filter: VoteLineFilter) => void;
+}
+
+const parseIndex = (value: string): number => Math.max(0, parseInt(value, 10) || 0);
+
+// Choose which validator vote lines are drawn.
+const VoteLineControls: React.FC<VoteLineControlsProps> = (props) => {
+    const {filter, onChange} = props;
+    const setKind = (kind: VoteLineFilter['kind']) => {
+        switch (kind) {
+            case 'off':
+            case 'focus':
+                onChange({kind});
+                break;
+            case 'range':
+                onChange({kind, from: 0, to: 63});
+                break;
+            case 'committee':
+                onChange({kind, commIndex: 0});
+                break;
+        }
+    };
+    return (
+        <div className="vote-line-controls">
+            <Select value={filter.kind} onChange={e => setKind(e.target.value as VoteLineFilter['kind'])}>
+                <MenuItem value="off">No vote lines</MenuItem>
+                <MenuItem value="focus">Votes of hovered/selected</MenuItem>
+                <MenuItem value="range">Votes of index range</MenuItem>
+                <MenuItem value="committee">Votes in committee</MenuItem>
+            </Select>
+            {filter.kind === 'range' && (
+                <div>
+                    <TextField label="From" type="number" value={filter.from} className="vote-line-index"
+                               onChange={e => onChange({...filter, from: parseIndex(e.target.value)})}/>
+                    <TextField label="To" type="number" value={filter.to} className="vote-line-index"
+                               onChange={e => onChange({...filter, to: parseIndex(e.target.value)})}/>
+                </div>
+            )}
+            {filter.kind === 'committee' && (
+                <TextField label="Committee" type="number" value={filter.commIndex} className="vote-line-index"
+                           onChange={e => onChange({...filter, commIndex: parseIndex(e.target.value)})}/>
+            )}
+        </div>
+    );
+};
+
+export default VoteLineControls;
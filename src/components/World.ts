@@ -0,0 +1,1356 @@
+import * as PIXI from 'pixi.js';
+import {AttestationPtr, AttestationSummary, BlockPtr, BlockSummary, Epoch, MemoryDiff, ValidatorIndex} from "../protocol";
+import {ChainStore, StoreUpdate} from "../store";
+import {Selection} from "../selection";
+import {Camera} from "./Camera";
+import {ForkChoice, computeForkChoice} from "../forkchoice";
+import {SLOTS_PER_EPOCH, epochStartSlot, finalityStatus, slotToEpoch} from "../chain";
+import {
+    DagLayout, LayoutSettings, defaultLayoutSettings, layoutChanges, layoutDag as computeDagLayout
+} from "../layout";
+import {ValidatorColorMode, ValidatorColors} from "../validatorColors";
+import {VoteLineFilter, defaultVoteLineFilter, voteLineIncludes, voteLineValidators} from "../voteLines";
+import {Timings} from "../metrics";
+
+const ZERO_POS = new PIXI.Point(0, 0);
+
+// fraction of the view height used by the validator grid, the DAG gets the rest.
+const VALIDATORS_AREA = 0.6;
+// position of the head in the view when following the head, as fractions of the view width and height.
+const HEAD_VIEW_X = 0.9;
+const HEAD_VIEW_Y = 0.65;
+// the same for layouts with time going down: the head near the bottom, with room for forks on its right.
+const VERTICAL_HEAD_VIEW_X = 0.3;
+const VERTICAL_HEAD_VIEW_Y = 0.9;
+// pointer movement (px) before a press counts as a drag instead of a click
+const DRAG_THRESHOLD = 4;
+
+const VAL_GRID_MARGIN = 20;
+// validator boxes shrink in powers of two as the validator set grows, so the grid rarely has to reflow.
+const MAX_VAL_BOX_SIZE = 16;
+const MIN_VAL_BOX_SIZE = 2;
+
+// DAG relations are drawn for the view plus this margin (as fraction of the view size) on every side.
+// All of them are redrawn when the view leaves that region or zooms, otherwise only those that changed.
+const REDRAW_MARGIN = 0.5;
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 80;
+const MINIMAP_MARGIN = 10;
+
+const BLOCK_SIZE = 10;
+const CANONICAL_COLOR = 0xffcc00;
+const FORK_COLOR = 0xffffff;
+const UNSUPPORTED_COLOR = 0x777777;
+
+const VOTE_LINE_COLOR = 0xaaaa00;
+const HIGHLIGHT_COLOR = 0x00e5ff;
+// how long branches stay highlighted after jumping to them, in ms
+const BRANCH_HIGHLIGHT_TIME = 3000;
+
+const EPOCH_LINE_COLOR = 0x555555;
+const JUSTIFIED_COLOR = 0x1565c0;
+const FINALIZED_COLOR = 0x2e7d32;
+// extent of the epoch shading and lines across the time axis, in DAG content coordinates
+const EPOCH_AREA_TOP = -40;
+const EPOCH_AREA_HEIGHT = 4000;
+// part of the view an epoch fills when zooming to it
+const EPOCH_VIEW_FILL = 0.9;
+
+// start and end of the epoch along the time axis of the layout, there may be a gap before the next epoch
+const epochSpan = (layout: DagLayout, epoch: Epoch): [number, number] => {
+    const start = epochStartSlot(epoch);
+    return [layout.slotPos(start), layout.slotPos(start + SLOTS_PER_EPOCH - 1) + layout.slotSpacing];
+};
+
+export interface WorldCallbacks {
+    onSelect: (sel: Selection) => void;
+    // called when following the head is turned on or off, e.g. when the user starts dragging the DAG.
+    onFollowHeadChange: (followHead: boolean) => void;
+}
+
+// A validator in the grid. The sprites of all validators are batched in a particle container:
+// they are not interactive themselves, the grid maps pointer positions to validator indices instead.
+export class PixiValidator extends PIXI.Sprite {
+    index: number;
+
+    constructor(index: number) {
+        super(PIXI.Texture.from("validator"));
+        this.index = index;
+    }
+
+    // color by the active color mode, and fade out validators that are not (yet) part of the chain
+    setAppearance(color: number, faded: boolean) {
+        this.tint = color;
+        this.alpha = faded ? 0.35 : 1.0;
+    }
+
+    // Draw lines between the validator and the included latest votes (most recent first), older votes fade out.
+    // The grid origin is the global position of the grid, the validator sprite may not be rendered.
+    drawVoteRelation(g: PIXI.Graphics, origin: PIXI.IPoint, maxY: number,
+                     votes: Array<PixiAttestation>, include: (att: PixiAttestation) => boolean) {
+        if (votes.length === 0) {
+            // or maybe draw an idle icon?
+            return;
+        }
+        // from the center of the validator, if it is not scrolled out of the grid area
+        const x = origin.x + this.x + this.width / 2;
+        const y = origin.y + this.y + this.height / 2;
+        if (y < 0 || y > maxY) {
+            return;
+        }
+        let fade = 1.0;
+        for (let vote of votes) {
+            if (include(vote)) {
+                g.lineStyle(1, VOTE_LINE_COLOR, fade);
+                g.moveTo(x, y);
+                const votePos = vote.toGlobal(ZERO_POS);
+                g.lineTo(votePos.x, votePos.y);
+            }
+            fade *= 0.7;
+        }
+    }
+}
+
+export class PixiBlock extends PIXI.Container {
+    block: BlockSummary;
+    img: PIXI.Sprite;
+    // fork-choice weight, as fraction of the heaviest block
+    weight: number = 0;
+    canonical: boolean = false;
+    // the edge to the parent, in the DAG lines layer. Redrawn when dirty, or for another line scale.
+    lines: PIXI.Graphics = new PIXI.Graphics();
+    linesDirty: boolean = true;
+    linesScale: number = 0;
+
+    constructor(block: BlockSummary) {
+        super();
+        this.block = block;
+
+        this.img = new PIXI.Sprite(PIXI.Texture.from("block"));
+        this.addChild(this.img);
+        this.width = BLOCK_SIZE;
+        this.height = BLOCK_SIZE;
+    }
+
+    // Size the block by its fork-choice weight, and color the canonical chain.
+    // Returns true if they changed, the edge to the parent then needs a redraw.
+    setForkChoice(weight: number, canonical: boolean): boolean {
+        if (weight === this.weight && canonical === this.canonical) {
+            return false;
+        }
+        this.weight = weight;
+        this.canonical = canonical;
+        const size = BLOCK_SIZE * (1 + weight);
+        this.width = size;
+        this.height = size;
+        this.img.tint = canonical ? CANONICAL_COLOR : (weight > 0 ? FORK_COLOR : UNSUPPORTED_COLOR);
+        return true;
+    }
+
+    // draw the edge to the parent, in DAG content coordinates. Line widths are scaled to stay the same on screen.
+    drawParentRelation(getParent: (parentPtr: BlockPtr) => PixiBlock | null, lineScale: number) {
+        const g = this.lines;
+        g.clear();
+        this.linesDirty = false;
+        this.linesScale = lineScale;
+        const parent = getParent(this.block.parent);
+        // the parent was pruned or did not arrive (yet). A parent in a later slot is a newer block
+        // that reused the pointer of the pruned parent. Either way there is no edge to draw.
+        if (parent === null || parent.block.slot >= this.block.slot) {
+            return;
+        }
+        // the edge carries the weight of this block to its parent
+        const color = this.canonical ? CANONICAL_COLOR : (this.weight > 0 ? FORK_COLOR : UNSUPPORTED_COLOR);
+        g.lineStyle((1 + this.weight * 4) * lineScale, color, 1.0);
+        g.moveTo(this.x, this.y);
+        g.lineTo(parent.x, parent.y);
+    }
+}
+
+export class PixiAttestation extends PIXI.Container {
+    attestation: AttestationSummary;
+    source: PixiBlock | null;
+    target: PixiBlock | null;
+    head: PixiBlock | null;
+    // lines to the blocks, in the DAG lines layer. Redrawn when dirty, or for another line scale.
+    lines: PIXI.Graphics = new PIXI.Graphics();
+    linesDirty: boolean = true;
+    linesScale: number = 0;
+
+    constructor(attestation: AttestationSummary, source: PixiBlock | null, target: PixiBlock | null, head: PixiBlock | null) {
+        super();
+        this.attestation = attestation;
+        this.source = source;
+        this.target = target;
+        this.head = head;
+
+        const blockImg = new PIXI.Sprite(PIXI.Texture.from("attestation"));
+        this.addChild(blockImg);
+        this.width = 7;
+        this.height = 7;
+    }
+
+    // draw lines between attestation and blocks, in DAG content coordinates.
+    drawBlockRelation(lineScale: number) {
+        const g = this.lines;
+        g.clear();
+        this.linesDirty = false;
+        this.linesScale = lineScale;
+        // Source
+        if (this.source) {
+            g.lineStyle(lineScale, 0xff0000, 1.0);
+            g.moveTo(this.x, this.y);
+            g.lineTo(this.source.x, this.source.y);
+        }
+
+        // Target
+        if (this.target) {
+            g.lineStyle(lineScale, 0x00ff00, 1.0);
+            g.moveTo(this.x, this.y);
+            g.lineTo(this.target.x, this.target.y);
+        }
+        // Head
+        if (this.head) {
+            g.lineStyle(lineScale, 0x0000ff, 1.0);
+            g.moveTo(this.x, this.y);
+            g.lineTo(this.head.x, this.head.y);
+        }
+    }
+}
+
+// Renders the chain store with PIXI. Display objects mirror the store contents, and follow its updates.
+export class World {
+    app: PIXI.Application;
+    store: ChainStore;
+
+    valCount: number = 0;
+    valGridWidth: number = 100;
+    valGridHeight: number = 100;
+    valBoxSize: number = 10;
+    // vertical scroll offset of the validator grid
+    valScroll: number = 0;
+    // range of validator indices in the grid area, only these sprites are rendered
+    visibleValFrom: number = 0;
+    visibleValTo: number = 0;
+
+    // blocks and attestations are in the dag container, which is transformed by the camera.
+    dag: PIXI.Container;
+    dagCamera: Camera = new Camera();
+    // epoch boundaries, justified/finalized shading and finalized checkpoint markers, behind the blocks
+    epochLayer: PIXI.Graphics;
+    epochLabels: PIXI.Container;
+    epochLabelCache: Record<number, PIXI.Text> = {};
+    blocks: PIXI.Container;
+    attestations: PIXI.Container;
+    // the lines of the block parent edges and attestation relations, in DAG content coordinates
+    dagLines: PIXI.Container;
+    highlightMarker: PIXI.Graphics;
+    validators: PIXI.ParticleContainer;
+
+    // display objects by pointer or index, to look them up without scanning the containers
+    blockIndex: Record<BlockPtr, PixiBlock> = {};
+    attestationIndex: Record<AttestationPtr, PixiAttestation> = {};
+    // reverse indices by the pointer they reference: the child blocks of a parent,
+    // and the attestations with it as source, target or head. Pruning a block visits only these.
+    // Bounded by the pointer range, like the indices above.
+    childIndex: Record<BlockPtr, Record<BlockPtr, PixiBlock>> = {};
+    voteIndex: Record<BlockPtr, Record<AttestationPtr, PixiAttestation>> = {};
+    validatorSprites: Array<PixiValidator> = [];
+
+    forkChoice: ForkChoice = {weights: {}, maxWeight: 0, canonical: []};
+    colorMode: ValidatorColorMode;
+    voteLineFilter: VoteLineFilter = defaultVoteLineFilter;
+    layoutSettings: LayoutSettings = defaultLayoutSettings;
+    // the current layout, null until there is a head to lay out from
+    layout: DagLayout | null = null;
+    // the validator under the pointer, its votes are drawn with the focus filter
+    hoveredValidator: ValidatorIndex | null = null;
+    // attestations marked in the DAG, e.g. those of a committee
+    highlighted: Array<AttestationSummary> = [];
+    // blocks marked for a short time, e.g. the branches of a reorg
+    highlightedBranches: Array<{blocks: Array<BlockSummary>, color: number}> = [];
+
+    // vote lines between the validator grid and the DAG, in global coordinates
+    voteLines: PIXI.Graphics;
+    selectionMarker: PIXI.Graphics;
+    minimap: PIXI.Graphics;
+    // view-sized shapes, redrawn when the view is resized
+    background: PIXI.Graphics;
+    validatorsMask: PIXI.Graphics;
+    dagMask: PIXI.Graphics;
+    // content area shown in the minimap, and its scale
+    minimapBounds: PIXI.Rectangle = new PIXI.Rectangle();
+    minimapScale: number = 1;
+
+    // the selected object, centered in the view once it is available.
+    focus: Selection | null = null;
+    focusPending: boolean = false;
+    callbacks: WorldCallbacks;
+    // time spent in updateWorld, layoutDag and drawRelations
+    timings: Timings = new Timings();
+
+    // active pointers, by pointer id, for dragging and pinching
+    private pointers: Record<number, PIXI.Point> = {};
+    private dragMoved: boolean = false;
+    private dragRegion: 'validators' | 'dag' = 'dag';
+    private redrawScheduled: boolean = false;
+    // objects with lines to redraw, if they are in the drawn region. Pruned ones are skipped.
+    private dirtyBlocks: Array<PixiBlock> = [];
+    private dirtyAttestations: Array<PixiAttestation> = [];
+    private drawnRegion: PIXI.Rectangle | null = null;
+    private drawnZoom: number = 1;
+    // while the WebGL context is lost nothing is rendered, the scene is rebuilt once it is restored.
+    private contextLost: boolean = false;
+    private branchHighlightTimer: undefined | number;
+
+    private unsubscribe: () => void;
+
+    constructor(app: PIXI.Application, store: ChainStore, callbacks: WorldCallbacks, colorMode: ValidatorColorMode) {
+        this.app = app;
+        this.store = store;
+        this.callbacks = callbacks;
+        this.colorMode = colorMode;
+
+        app.stage.interactive = true;
+        app.stage.buttonMode = true;
+        app.stage.on('click', this.onClick);
+        app.stage.on('pointerdown', this.onPointerDown);
+        app.stage.on('pointermove', this.onPointerMove);
+        app.stage.on('pointerup', this.onPointerUp);
+        app.stage.on('pointerupoutside', this.onPointerUp);
+        app.view.addEventListener('wheel', this.onWheel, {passive: false});
+        app.view.addEventListener('webglcontextlost', this.onContextLost, false);
+        app.view.addEventListener('webglcontextrestored', this.onContextRestored, false);
+
+        // Pixi black magic: make background and click events consistent with a view-port filling rectangle.
+        this.background = new PIXI.Graphics();
+        this.app.stage.addChild(this.background);
+
+        // validators and DAG scroll independently, each within their own area of the view.
+        this.validators = new PIXI.ParticleContainer(1500, {vertices: true, position: true, tint: true}, 16384, true);
+        this.validators.interactive = true;
+        this.validators.buttonMode = true;
+        this.validators.on('pointermove', this.onValidatorsPointerMove);
+        this.validators.on('click', this.onValidatorsClick);
+        app.stage.addChild(this.validators);
+        this.validatorsMask = new PIXI.Graphics();
+        this.validators.mask = this.validatorsMask;
+
+        this.dag = new PIXI.Container();
+        app.stage.addChild(this.dag);
+        this.dagMask = new PIXI.Graphics();
+        this.dag.mask = this.dagMask;
+
+        this.epochLayer = new PIXI.Graphics();
+        this.dag.addChild(this.epochLayer);
+        this.epochLabels = new PIXI.Container();
+        this.dag.addChild(this.epochLabels);
+
+        this.blocks = new PIXI.Container();
+        this.dag.addChild(this.blocks);
+
+        this.attestations = new PIXI.Container();
+        this.dag.addChild(this.attestations);
+
+        this.dagLines = new PIXI.Container();
+        this.dag.addChild(this.dagLines);
+
+        this.highlightMarker = new PIXI.Graphics();
+        this.dag.addChild(this.highlightMarker);
+
+        this.voteLines = new PIXI.Graphics();
+        this.app.stage.addChild(this.voteLines);
+
+        this.selectionMarker = new PIXI.Graphics();
+        this.app.stage.addChild(this.selectionMarker);
+
+        this.minimap = new PIXI.Graphics();
+        this.minimap.interactive = true;
+        this.minimap.hitArea = new PIXI.Rectangle(0, 0, MINIMAP_WIDTH, MINIMAP_HEIGHT);
+        this.minimap.on('pointerdown', this.onMinimapPointerDown);
+        this.app.stage.addChild(this.minimap);
+
+        this.layoutView();
+
+        // put initial validators into view
+        this.updateValSet(this.valCount);
+
+        // catch up with what the store already has, then follow it.
+        this.rebuild();
+        this.unsubscribe = store.subscribe(this.onStoreUpdate);
+    }
+
+    // stop following the store and user input
+    detach() {
+        this.unsubscribe();
+        this.app.view.removeEventListener('wheel', this.onWheel);
+        this.app.view.removeEventListener('webglcontextlost', this.onContextLost);
+        this.app.view.removeEventListener('webglcontextrestored', this.onContextRestored);
+    }
+
+    // Detach, and destroy the app with all display objects and the canvas.
+    // The textures are kept, they are shared with the next world.
+    destroy() {
+        this.detach();
+        window.clearTimeout(this.branchHighlightTimer);
+        this.clear();
+        this.app.ticker.remove(this.redraw);
+        this.app.destroy(true, {children: true, texture: false, baseTexture: false});
+    }
+
+    // size the parts of the view that follow the view size
+    layoutView() {
+        const width = this.app.screen.width;
+        const height = this.app.screen.height;
+        const dagTop = this.dagTop();
+        this.background.clear()
+            .beginFill(0x000000)
+            .drawRect(0, 0, width, height)
+            .endFill();
+        this.validatorsMask.clear()
+            .beginFill(0xffffff)
+            .drawRect(0, 0, width, dagTop)
+            .endFill();
+        this.dagMask.clear()
+            .beginFill(0xffffff)
+            .drawRect(0, dagTop, width, height - dagTop)
+            .endFill();
+        this.minimap.position.set(width - MINIMAP_WIDTH - MINIMAP_MARGIN, height - MINIMAP_HEIGHT - MINIMAP_MARGIN);
+    }
+
+    // Resize the view to the given size in CSS pixels, at the given device pixel ratio,
+    // and re-layout the validator grid and the DAG to fit.
+    resize(width: number, height: number, resolution: number) {
+        const renderer = this.app.renderer;
+        if (width === this.app.screen.width && height === this.app.screen.height && resolution === renderer.resolution) {
+            return;
+        }
+        const prevDagTop = this.dagTop();
+        if (resolution !== renderer.resolution) {
+            renderer.resolution = resolution;
+            renderer.plugins.interaction.resolution = resolution;
+        }
+        renderer.resize(width, height);
+        this.layoutView();
+        // keep the DAG content at the top of the DAG area in place, unless the camera follows the head anyway.
+        this.dagCamera.panBy(0, this.dagTop() - prevDagTop);
+        this.updateValGridSize(this.valCount);
+        this.scrollValidators(0);
+        this.updateVisibleValidators(true);
+        this.drawnRegion = null;
+        this.layoutDag();
+        this.applyCamera();
+    }
+
+    onContextLost = () => {
+        console.log("WebGL context lost");
+        this.contextLost = true;
+    };
+
+    // PIXI recreates its GL resources by itself, rebuild the display objects to be sure they match the store.
+    onContextRestored = () => {
+        console.log("WebGL context restored");
+        this.contextLost = false;
+        this.rebuild();
+    };
+
+    // stop following the store, e.g. while many diffs are applied at once
+    suspend() {
+        this.unsubscribe();
+    }
+
+    // catch up with the store, and follow it again
+    resume() {
+        this.rebuild();
+        this.unsubscribe = this.store.subscribe(this.onStoreUpdate);
+    }
+
+    // top of the DAG area, the validator grid is above it
+    dagTop(): number {
+        return Math.floor(this.app.screen.height * VALIDATORS_AREA);
+    }
+
+    // remove all display objects of chain data
+    clear() {
+        for (let container of [this.blocks, this.attestations, this.dagLines]) {
+            for (let child of container.removeChildren()) {
+                child.destroy();
+            }
+        }
+        // most validator sprites are not in the container, only the visible ones
+        this.validators.removeChildren();
+        for (let val of this.validatorSprites) {
+            val.destroy();
+        }
+        this.blockIndex = {};
+        this.attestationIndex = {};
+        this.childIndex = {};
+        this.voteIndex = {};
+        this.validatorSprites = [];
+        this.visibleValFrom = 0;
+        this.visibleValTo = 0;
+        this.dirtyBlocks = [];
+        this.dirtyAttestations = [];
+        this.voteLines.clear();
+        this.drawnRegion = null;
+        this.epochLayer.clear();
+        for (let label of this.epochLabels.removeChildren()) {
+            label.destroy();
+        }
+        this.epochLabelCache = {};
+        this.valCount = 0;
+        this.valGridWidth = 100;
+        this.valGridHeight = 100;
+        this.valScroll = 0;
+        this.hoveredValidator = null;
+        this.highlightMarker.clear();
+    }
+
+    // recreate all display objects from the current store contents
+    rebuild() {
+        this.clear();
+        this.updateValSet(this.store.valCount);
+        this.addBlocks(Object.values(this.store.blocks));
+        this.addAttestations(Object.values(this.store.attestations));
+        this.updateForkChoice();
+        this.updateValidatorColors();
+        this.layoutDag();
+        this.drawRelations();
+    }
+
+    onStoreUpdate = (update: StoreUpdate) => {
+        if (update.reset) {
+            this.clear();
+        } else {
+            this.prune(update);
+        }
+        if (update.diff !== null) {
+            this.updateWorld(update.diff);
+        }
+    };
+
+    // remove display objects of data that was evicted from the store
+    prune(update: StoreUpdate) {
+        for (let b of update.prunedBlocks) {
+            const block = this.getBlock(b.selfPtr);
+            if (block !== null && block.block === b) {
+                this.blocks.removeChild(block);
+                delete this.blockIndex[b.selfPtr];
+                this.unindexBlock(block);
+                // the edges of the children and the lines of the votes to it go
+                for (let child of Object.values(this.childIndex[b.selfPtr] || {})) {
+                    this.markBlockDirty(child);
+                }
+                for (let att of Object.values(this.voteIndex[b.selfPtr] || {})) {
+                    if (att.source === block) att.source = null;
+                    if (att.target === block) att.target = null;
+                    if (att.head === block) att.head = null;
+                    this.markAttestationDirty(att);
+                }
+                block.lines.destroy();
+                block.destroy();
+            }
+        }
+        for (let a of update.prunedAttestations) {
+            const att = this.getAttestation(a.selfPtr);
+            if (att !== null && att.attestation === a) {
+                this.attestations.removeChild(att);
+                delete this.attestationIndex[a.selfPtr];
+                this.unindexAttestation(att);
+                att.lines.destroy();
+                att.destroy();
+            }
+        }
+    }
+
+    private indexBlock(block: PixiBlock) {
+        const b = block.block;
+        (this.childIndex[b.parent] = this.childIndex[b.parent] || {})[b.selfPtr] = block;
+    }
+
+    private unindexBlock(block: PixiBlock) {
+        const b = block.block;
+        const siblings = this.childIndex[b.parent];
+        if (siblings !== undefined && siblings[b.selfPtr] === block) {
+            delete siblings[b.selfPtr];
+        }
+    }
+
+    private indexAttestation(att: PixiAttestation) {
+        const a = att.attestation;
+        for (let ptr of [a.source, a.target, a.head]) {
+            (this.voteIndex[ptr] = this.voteIndex[ptr] || {})[a.selfPtr] = att;
+        }
+    }
+
+    private unindexAttestation(att: PixiAttestation) {
+        const a = att.attestation;
+        for (let ptr of [a.source, a.target, a.head]) {
+            const votes = this.voteIndex[ptr];
+            if (votes !== undefined && votes[a.selfPtr] === att) {
+                delete votes[a.selfPtr];
+            }
+        }
+    }
+
+    private markBlockDirty(block: PixiBlock) {
+        block.linesDirty = true;
+        this.dirtyBlocks.push(block);
+    }
+
+    private markAttestationDirty(att: PixiAttestation) {
+        att.linesDirty = true;
+        this.dirtyAttestations.push(att);
+    }
+
+    updateValSet(newValCount: number) {
+        // add new validators
+        for (let vi = this.valCount; vi < newValCount; vi++) {
+            this.validatorSprites.push(new PixiValidator(vi));
+        }
+
+        this.updateValGridSize(newValCount);
+        this.valCount = newValCount;
+        this.updateVisibleValidators(true);
+    }
+
+    updateValGridSize(valCount: number) {
+        // sqrt * 1.8: spread over rectangular area, but not completely square preferably.
+        const desiredWidth = Math.sqrt(valCount) * 1.8;
+        const effectiveAppWidth = (this.app.screen.width - (VAL_GRID_MARGIN * 2));
+        let valBoxSize = MAX_VAL_BOX_SIZE;
+        while (valBoxSize > MIN_VAL_BOX_SIZE && effectiveAppWidth / valBoxSize < desiredWidth) {
+            valBoxSize /= 2;
+        }
+        const width = Math.max(Math.floor(effectiveAppWidth / valBoxSize), 1);
+        const height = Math.ceil(valCount / width);
+        let fromValIndex = 0;
+        if (this.valGridWidth === width && this.valBoxSize === valBoxSize) {
+            // only position the new validators if the existing ones can stay in place.
+            fromValIndex = this.valCount;
+        }
+        const spriteSize = Math.max(Math.floor(valBoxSize * 0.8), 1);
+        this.valBoxSize = valBoxSize;
+        this.validators.position.set(VAL_GRID_MARGIN, VAL_GRID_MARGIN - this.valScroll);
+        for (let i = fromValIndex; i < valCount; i++) {
+            const val = this.validatorSprites[i];
+            const x = i % width;
+            const y = Math.floor(i / width);
+            val.position.set(x * valBoxSize, y * valBoxSize);
+            val.width = spriteSize;
+            val.height = spriteSize;
+        }
+        this.valGridWidth = width;
+        this.valGridHeight = height;
+        this.validators.hitArea = new PIXI.Rectangle(0, 0, width * valBoxSize, height * valBoxSize);
+    }
+
+    // Render only the sprites of the validator rows within the grid area, and recolor them when they come into view.
+    updateVisibleValidators(force: boolean) {
+        const top = this.valScroll - VAL_GRID_MARGIN;
+        const fromRow = Math.max(Math.floor(top / this.valBoxSize), 0);
+        const toRow = Math.max(Math.ceil((top + this.dagTop()) / this.valBoxSize), 0);
+        const from = Math.min(fromRow * this.valGridWidth, this.valCount);
+        const to = Math.min(toRow * this.valGridWidth, this.valCount);
+        if (!force && from === this.visibleValFrom && to === this.visibleValTo) {
+            return;
+        }
+        this.validators.removeChildren();
+        for (let i = from; i < to; i++) {
+            this.validators.addChild(this.validatorSprites[i]);
+        }
+        this.visibleValFrom = from;
+        this.visibleValTo = to;
+        this.updateValidatorColors();
+    }
+
+    // index of the validator at the global position, if any
+    validatorAt(pos: PIXI.Point): ValidatorIndex | null {
+        if (pos.y < 0 || pos.y >= this.dagTop()) {
+            return null;
+        }
+        const local = this.validators.toLocal(pos);
+        const col = Math.floor(local.x / this.valBoxSize);
+        const row = Math.floor(local.y / this.valBoxSize);
+        if (col < 0 || col >= this.valGridWidth || row < 0) {
+            return null;
+        }
+        const vi = row * this.valGridWidth + col;
+        return vi < this.valCount ? vi : null;
+    }
+
+    onValidatorsPointerMove = (e: PIXI.interaction.InteractionEvent) => {
+        this.hoverValidator(this.validatorAt(e.data.global));
+    };
+
+    onValidatorsClick = (e: PIXI.interaction.InteractionEvent) => {
+        // the end of a drag is not a click
+        const vi = this.validatorAt(e.data.global);
+        if (!this.dragMoved && vi !== null) {
+            this.callbacks.onSelect({kind: 'validator', index: vi});
+        }
+    };
+
+    addBlocks(blocks: Array<BlockSummary>) {
+        for (let b of blocks) {
+            const block = new PixiBlock(b);
+            this.makeSelectable(block, {kind: 'block', ptr: b.selfPtr});
+            this.blocks.addChild(block);
+            this.dagLines.addChild(block.lines);
+            this.blockIndex[b.selfPtr] = block;
+            this.indexBlock(block);
+            this.markBlockDirty(block);
+        }
+        // children that arrived before their parent get their edge now
+        for (let b of blocks) {
+            for (let child of Object.values(this.childIndex[b.selfPtr] || {})) {
+                if (!child.linesDirty) this.markBlockDirty(child);
+            }
+        }
+    }
+
+    addAttestations(attestations: Array<AttestationSummary>) {
+        for (let a of attestations) {
+            const att = new PixiAttestation(a,
+                this.getBlock(a.source), this.getBlock(a.target), this.getBlock(a.head));
+            this.makeSelectable(att, {kind: 'attestation', ptr: a.selfPtr});
+            this.attestations.addChild(att);
+            this.dagLines.addChild(att.lines);
+            this.attestationIndex[a.selfPtr] = att;
+            this.indexAttestation(att);
+            this.markAttestationDirty(att);
+        }
+    }
+
+    makeSelectable(obj: PIXI.DisplayObject, sel: Selection) {
+        obj.interactive = true;
+        obj.buttonMode = true;
+        obj.on('click', () => {
+            // the end of a drag is not a click
+            if (!this.dragMoved) {
+                this.callbacks.onSelect(sel);
+            }
+        });
+    }
+
+    // select an object, and center it in the view once it is available.
+    select(sel: Selection | null) {
+        this.focus = sel;
+        this.focusPending = sel !== null;
+        this.layoutDag();
+        this.drawRelations();
+    }
+
+    // Mark the attestations in the DAG, and bring them into view. An empty list removes the marks.
+    highlightAttestations(ptrs: Array<AttestationPtr>) {
+        this.highlighted = [];
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        for (let ptr of ptrs) {
+            const att = this.getAttestation(ptr);
+            if (att !== null) {
+                this.highlighted.push(att.attestation);
+                minX = Math.min(minX, att.x);
+                minY = Math.min(minY, att.y);
+                maxX = Math.max(maxX, att.x);
+                maxY = Math.max(maxY, att.y);
+            }
+        }
+        if (this.highlighted.length > 0) {
+            this.setFollowHead(false);
+            this.dagCamera.lookAt((minX + maxX) * 0.5, (minY + maxY) * 0.5,
+                this.app.screen.width * 0.5, this.app.screen.height * HEAD_VIEW_Y);
+            this.applyCamera();
+        }
+        this.drawHighlights();
+    }
+
+    // Jump to the block, and highlight the branches for a short time.
+    showBranches(focus: BlockSummary, branches: Array<{blocks: Array<BlockSummary>, color: number}>) {
+        const block = this.getBlock(focus.selfPtr);
+        if (block !== null && block.block === focus) {
+            this.setFollowHead(false);
+            this.dagCamera.lookAt(block.x, block.y, this.app.screen.width * 0.5, this.app.screen.height * HEAD_VIEW_Y);
+            this.applyCamera();
+        }
+        this.highlightedBranches = branches;
+        window.clearTimeout(this.branchHighlightTimer);
+        this.branchHighlightTimer = window.setTimeout(() => {
+            this.highlightedBranches = [];
+            this.drawHighlights();
+        }, BRANCH_HIGHLIGHT_TIME);
+        this.drawHighlights();
+    }
+
+    // Stop following the head, and zoom to fit the epoch in the view, along the time axis.
+    showEpoch(epoch: Epoch) {
+        if (this.layout === null) {
+            return;
+        }
+        this.setFollowHead(false);
+        const layout = this.layout;
+        const [start, end] = epochSpan(layout, epoch);
+        const {width, height} = this.app.screen;
+        const dagTop = this.dagTop();
+        const viewLength = layout.timeAxis === 'x' ? width : height - dagTop;
+        this.dagCamera.zoomAt(viewLength * EPOCH_VIEW_FILL / (end - start) / this.dagCamera.zoom, 0, 0);
+        const mid = (start + end) * 0.5;
+        if (layout.timeAxis === 'x') {
+            this.dagCamera.lookAt(mid, 0, width * 0.5, height * HEAD_VIEW_Y);
+        } else {
+            this.dagCamera.lookAt(0, mid, width * VERTICAL_HEAD_VIEW_X, (dagTop + height) * 0.5);
+        }
+        this.applyCamera();
+    }
+
+    setFollowHead(followHead: boolean) {
+        if (this.dagCamera.followHead !== followHead) {
+            this.dagCamera.followHead = followHead;
+            this.callbacks.onFollowHeadChange(followHead);
+            this.layoutDag();
+            this.drawRelations();
+        }
+    }
+
+    resetZoom() {
+        const at = this.headViewPoint();
+        this.dagCamera.zoomAt(1 / this.dagCamera.zoom, at.x, at.y);
+        this.applyCamera();
+    }
+
+    // where the head is kept in the view when following it
+    headViewPoint(): PIXI.Point {
+        const {width, height} = this.app.screen;
+        return this.layout === null || this.layout.timeAxis === 'x'
+            ? new PIXI.Point(width * HEAD_VIEW_X, height * HEAD_VIEW_Y)
+            : new PIXI.Point(width * VERTICAL_HEAD_VIEW_X, height * VERTICAL_HEAD_VIEW_Y);
+    }
+
+    scrollValidators(dy: number) {
+        const contentHeight = this.valGridHeight * this.valBoxSize + VAL_GRID_MARGIN * 2;
+        const maxScroll = Math.max(0, contentHeight - this.dagTop());
+        this.valScroll = Math.min(maxScroll, Math.max(0, this.valScroll + dy));
+        this.validators.position.y = VAL_GRID_MARGIN - this.valScroll;
+        this.updateVisibleValidators(false);
+    }
+
+    // apply camera changes, and redraw what depends on it in the next frame
+    applyCamera() {
+        this.dagCamera.apply(this.dag);
+        this.scheduleRedraw();
+    }
+
+    redraw = () => {
+        this.redrawScheduled = false;
+        this.drawRelations();
+        this.drawMinimap();
+    };
+
+    // redraw the relations and minimap in the next frame
+    scheduleRedraw() {
+        if (!this.redrawScheduled && !this.contextLost) {
+            this.redrawScheduled = true;
+            this.app.ticker.addOnce(this.redraw);
+        }
+    }
+
+    onPointerDown = (e: PIXI.interaction.InteractionEvent) => {
+        const pos = e.data.global.clone();
+        if (Object.keys(this.pointers).length === 0) {
+            this.dragMoved = false;
+            this.dragRegion = pos.y < this.dagTop() ? 'validators' : 'dag';
+        }
+        this.pointers[e.data.pointerId] = pos;
+    };
+
+    onPointerMove = (e: PIXI.interaction.InteractionEvent) => {
+        const prev = this.pointers[e.data.pointerId];
+        if (prev === undefined) {
+            return;
+        }
+        const cur = e.data.global.clone();
+        const ids = Object.keys(this.pointers).map(Number);
+        if (ids.length === 1) {
+            const dx = cur.x - prev.x;
+            const dy = cur.y - prev.y;
+            if (!this.dragMoved && Math.abs(dx) + Math.abs(dy) < DRAG_THRESHOLD) {
+                // not dragging yet, wait for more movement before taking the new position.
+                return;
+            }
+            this.dragMoved = true;
+            if (this.dragRegion === 'validators') {
+                this.scrollValidators(-dy);
+            } else {
+                this.setFollowHead(false);
+                this.dagCamera.panBy(dx, dy);
+            }
+        } else if (ids.length === 2) {
+            // pinch: zoom by the change in distance between the two pointers, around their midpoint.
+            const other = this.pointers[ids[0] === e.data.pointerId ? ids[1] : ids[0]];
+            const prevDist = Math.hypot(prev.x - other.x, prev.y - other.y);
+            const curDist = Math.hypot(cur.x - other.x, cur.y - other.y);
+            if (prevDist > 0) {
+                this.dragMoved = true;
+                this.dagCamera.zoomAt(curDist / prevDist, (cur.x + other.x) / 2, (cur.y + other.y) / 2);
+            }
+        }
+        this.pointers[e.data.pointerId] = cur;
+        this.applyCamera();
+    };
+
+    onPointerUp = (e: PIXI.interaction.InteractionEvent) => {
+        delete this.pointers[e.data.pointerId];
+    };
+
+    onWheel = (e: WheelEvent) => {
+        e.preventDefault();
+        const pos = new PIXI.Point();
+        this.app.renderer.plugins.interaction.mapPositionToPoint(pos, e.clientX, e.clientY);
+        if (pos.y < this.dagTop()) {
+            this.scrollValidators(e.deltaY);
+        } else {
+            this.dagCamera.zoomAt(Math.pow(2, -e.deltaY / 300), pos.x, pos.y);
+        }
+        this.applyCamera();
+    };
+
+    onMinimapPointerDown = (e: PIXI.interaction.InteractionEvent) => {
+        e.stopPropagation();
+        const local = e.data.getLocalPosition(this.minimap);
+        const cx = this.minimapBounds.x + local.x / this.minimapScale;
+        const cy = this.minimapBounds.y + local.y / this.minimapScale;
+        this.setFollowHead(false);
+        const dagTop = this.dagTop();
+        this.dagCamera.lookAt(cx, cy, this.app.screen.width * 0.5, (dagTop + this.app.screen.height) * 0.5);
+        this.applyCamera();
+    };
+
+    // Overview of all blocks in memory, with the part of the DAG that is in view.
+    drawMinimap() {
+        const g = this.minimap;
+        g.clear();
+        g.beginFill(0x222222, 0.8);
+        g.drawRect(0, 0, MINIMAP_WIDTH, MINIMAP_HEIGHT);
+        g.endFill();
+        if (this.blocks.children.length === 0) {
+            return;
+        }
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+        for (let block of this.blocks.children) {
+            minX = Math.min(minX, block.x);
+            minY = Math.min(minY, block.y);
+            maxX = Math.max(maxX, block.x);
+            maxY = Math.max(maxY, block.y);
+        }
+        const pad = 10;
+        const bounds = new PIXI.Rectangle(minX - pad, minY - pad, maxX - minX + pad * 2, maxY - minY + pad * 2);
+        const scale = Math.min(MINIMAP_WIDTH / bounds.width, MINIMAP_HEIGHT / bounds.height);
+        this.minimapBounds = bounds;
+        this.minimapScale = scale;
+
+        g.beginFill(0xffffff, 1.0);
+        for (let block of this.blocks.children) {
+            g.drawRect((block.x - bounds.x) * scale, (block.y - bounds.y) * scale, 2, 2);
+        }
+        g.endFill();
+
+        // visible part of the DAG
+        const view = this.viewRegion();
+        g.lineStyle(1, 0xffff00, 1.0);
+        g.drawRect((view.x - bounds.x) * scale, (view.y - bounds.y) * scale, view.width * scale, view.height * scale);
+    }
+
+    // the part of the DAG content that is in view
+    viewRegion(): PIXI.Rectangle {
+        const topLeft = this.dagCamera.toContent(0, this.dagTop());
+        const bottomRight = this.dagCamera.toContent(this.app.screen.width, this.app.screen.height);
+        return new PIXI.Rectangle(topLeft.x, topLeft.y, bottomRight.x - topLeft.x, bottomRight.y - topLeft.y);
+    }
+
+    // display object of the current selection, if it is available
+    focusedObject(): PIXI.Container | null {
+        if (this.focus === null) {
+            return null;
+        }
+        switch (this.focus.kind) {
+            case 'block':
+                return this.getBlock(this.focus.ptr);
+            case 'attestation':
+                return this.getAttestation(this.focus.ptr);
+            case 'validator':
+                return this.getValidator(this.focus.index);
+        }
+    }
+
+    updateForkChoice() {
+        this.forkChoice = computeForkChoice(this.store);
+        const {weights, maxWeight, canonical} = this.forkChoice;
+        const canonicalSet: Record<BlockPtr, boolean> = {};
+        for (let ptr of canonical) {
+            canonicalSet[ptr] = true;
+        }
+        for (let child of this.blocks.children) {
+            const block = child as PixiBlock;
+            const ptr = block.block.selfPtr;
+            if (block.setForkChoice(maxWeight > 0 ? (weights[ptr] || 0) / maxWeight : 0, canonicalSet[ptr] === true)) {
+                this.markBlockDirty(block);
+            }
+        }
+    }
+
+    hoverValidator(vi: ValidatorIndex | null) {
+        if (this.hoveredValidator !== vi) {
+            this.hoveredValidator = vi;
+            if (this.voteLineFilter.kind === 'focus') {
+                this.scheduleRedraw();
+            }
+        }
+    }
+
+    setVoteLineFilter(filter: VoteLineFilter) {
+        this.voteLineFilter = filter;
+        this.scheduleRedraw();
+    }
+
+    // Lay out the DAG again with the new settings. Another kind of layout moves everything, so go back to the head.
+    setLayoutSettings(settings: LayoutSettings) {
+        const kindChanged = settings.kind !== this.layoutSettings.kind;
+        this.layoutSettings = settings;
+        if (kindChanged && !this.dagCamera.followHead) {
+            this.setFollowHead(true);
+        } else {
+            this.layoutDag();
+            this.drawRelations();
+        }
+    }
+
+    setColorMode(mode: ValidatorColorMode) {
+        this.colorMode = mode;
+        this.updateValidatorColors();
+    }
+
+    // Recolor the visible validators: recency and correctness change with every head, not just with new votes.
+    // The others are recolored when they are scrolled into view.
+    updateValidatorColors() {
+        const colors = new ValidatorColors(this.store, this.colorMode);
+        for (let vi = this.visibleValFrom; vi < this.visibleValTo; vi++) {
+            this.validatorSprites[vi].setAppearance(colors.color(vi), colors.faded(vi));
+        }
+    }
+
+    // update the world contents with a diff that was just applied to the store.
+    updateWorld(diff: MemoryDiff) {
+        const start = performance.now();
+        // add new validators
+        if (this.store.valCount !== this.valCount) {
+            this.updateValSet(this.store.valCount);
+        }
+        this.addBlocks(diff.blocks);
+        this.addAttestations(diff.attestations);
+        this.updateForkChoice();
+        this.updateValidatorColors();
+
+        this.layoutDag();
+        this.drawRelations();
+        this.timings.record('updateWorld', start);
+    }
+
+    layoutDag() {
+        const start = performance.now();
+        const head = this.store.latestHead();
+        const layout = computeDagLayout(this.store, this.layoutSettings);
+        if (head === null || layout === null) {
+            return
+        }
+        // the relations with an end that moves are redrawn
+        const changes = layoutChanges(this.store, this.layout, layout);
+        for (let ptr of changes.blocks) {
+            const block = this.getBlock(ptr);
+            if (block !== null) this.markBlockDirty(block);
+        }
+        for (let ptr of changes.attestations) {
+            const att = this.getAttestation(ptr);
+            if (att !== null) this.markAttestationDirty(att);
+        }
+        // move blocks and attestations to their position
+        for (let block of this.blocks.children) {
+            const pos = layout.blocks[(block as PixiBlock).block.selfPtr];
+            if (pos) block.position.set(pos.x, pos.y);
+        }
+        for (let att of this.attestations.children) {
+            const pos = layout.attestations[(att as PixiAttestation).attestation.selfPtr];
+            if (pos) att.position.set(pos.x, pos.y);
+        }
+        this.layout = layout;
+        this.drawEpochs(layout);
+        if (this.dagCamera.followHead) {
+            const at = this.headViewPoint();
+            const headPos = layout.slotPos(head.slot);
+            if (layout.timeAxis === 'x') {
+                this.dagCamera.lookAt(headPos, 0, at.x, at.y);
+            } else {
+                this.dagCamera.lookAt(0, headPos, at.x, at.y);
+            }
+        }
+        this.centerFocus();
+        this.dagCamera.apply(this.dag);
+        this.drawMinimap();
+        this.timings.record('layoutDag', start);
+    }
+
+    // Draw epoch boundaries with labels, shade the justified and finalized epochs,
+    // and mark the finalized checkpoint blocks.
+    drawEpochs(layout: DagLayout) {
+        const g = this.epochLayer;
+        g.clear();
+        const status = finalityStatus(this.store);
+        if (status === null) {
+            return;
+        }
+        let minSlot = status.headSlot;
+        for (let child of this.blocks.children) {
+            minSlot = Math.min(minSlot, (child as PixiBlock).block.slot);
+        }
+        const fromEpoch = slotToEpoch(minSlot);
+        const toEpoch = status.headEpoch;
+        const epochStart = (epoch: Epoch) => epochSpan(layout, epoch)[0];
+        const epochEnd = (epoch: Epoch) => epochSpan(layout, epoch)[1];
+        // the epoch area, from along..to on the time axis
+        const area = (along: number, to: number) => layout.timeAxis === 'x'
+            ? new PIXI.Rectangle(along, EPOCH_AREA_TOP, to - along, EPOCH_AREA_HEIGHT)
+            : new PIXI.Rectangle(EPOCH_AREA_TOP, along, EPOCH_AREA_HEIGHT, to - along);
+
+        // shading first, boundaries on top
+        for (let epoch = fromEpoch; epoch <= toEpoch; epoch++) {
+            const color = status.finalizedEpoch !== null && epoch <= status.finalizedEpoch ? FINALIZED_COLOR
+                : status.justifiedEpochs.indexOf(epoch) >= 0 ? JUSTIFIED_COLOR : null;
+            if (color !== null) {
+                g.beginFill(color, 0.25);
+                g.drawShape(area(epochStart(epoch), epochEnd(epoch)));
+                g.endFill();
+            }
+        }
+        g.lineStyle(1, EPOCH_LINE_COLOR, 1.0);
+        const boundaries: Array<number> = [];
+        for (let epoch = fromEpoch; epoch <= toEpoch; epoch++) {
+            boundaries.push(epochStart(epoch));
+        }
+        boundaries.push(epochEnd(toEpoch));
+        for (let along of boundaries) {
+            const line = area(along, along);
+            g.moveTo(line.x, line.y);
+            g.lineTo(line.x + line.width, line.y + line.height);
+        }
+
+        // labels: keep the ones still in range, add the new ones
+        for (let key of Object.keys(this.epochLabelCache)) {
+            const epoch = Number(key);
+            if (epoch < fromEpoch || epoch > toEpoch) {
+                const label = this.epochLabelCache[epoch];
+                this.epochLabels.removeChild(label);
+                label.destroy();
+                delete this.epochLabelCache[epoch];
+            }
+        }
+        for (let epoch = fromEpoch; epoch <= toEpoch; epoch++) {
+            if (!this.epochLabelCache[epoch]) {
+                const label = new PIXI.Text("epoch " + epoch, {fontSize: 10, fill: 0xaaaaaa});
+                this.epochLabels.addChild(label);
+                this.epochLabelCache[epoch] = label;
+            }
+            // the layout may have changed since the label was made
+            const labelArea = area(epochStart(epoch), epochStart(epoch));
+            this.epochLabelCache[epoch].position.set(labelArea.x + 4, labelArea.y + 2);
+        }
+
+        // finalized checkpoints
+        g.lineStyle(2, FINALIZED_COLOR, 1.0);
+        for (let cp of this.store.checkpoints) {
+            const b = this.store.checkpointBlock(cp);
+            const block = b !== null ? this.getBlock(b.selfPtr) : null;
+            if (block !== null) {
+                const r = block.width * 0.5;
+                g.drawCircle(block.x + r, block.y + r, r + 4);
+            }
+        }
+    }
+
+    // center the selection, if it just became available
+    centerFocus() {
+        const focused = this.focusedObject();
+        if (!this.focusPending || focused === null) {
+            return;
+        }
+        this.focusPending = false;
+        if (focused instanceof PixiValidator) {
+            this.scrollValidators(focused.y - this.valScroll - this.dagTop() * 0.5);
+        } else {
+            this.setFollowHead(false);
+            this.dagCamera.lookAt(focused.x, focused.y,
+                this.app.screen.width * 0.5, this.app.screen.height * HEAD_VIEW_Y);
+        }
+    }
+
+    getBlock = (blockPtr: BlockPtr): PixiBlock | null => {
+        return this.blockIndex[blockPtr] || null;
+    };
+    getAttestation = (attPtr: AttestationPtr): PixiAttestation | null => {
+        return this.attestationIndex[attPtr] || null;
+    };
+    getValidator = (vi: ValidatorIndex): PixiValidator | null => {
+        return this.validatorSprites[vi] || null;
+    };
+
+    drawRelations() {
+        const start = performance.now();
+        const view = this.viewRegion();
+        const region = this.drawnRegion;
+        if (region === null || this.drawnZoom !== this.dagCamera.zoom
+            || view.x < region.x || view.y < region.y
+            || view.x + view.width > region.x + region.width || view.y + view.height > region.y + region.height) {
+            view.pad(view.width * REDRAW_MARGIN, view.height * REDRAW_MARGIN);
+            this.drawDagRelations(view);
+        } else {
+            this.drawDirtyRelations(region);
+        }
+        this.voteLines.clear();
+        this.drawVoteLines();
+        this.drawHighlights();
+        this.drawSelection();
+        this.timings.record('drawRelations', start);
+    }
+
+    // mark the highlighted attestations and blocks that are still in the DAG, pruned ones are dropped
+    drawHighlights() {
+        const g = this.highlightMarker;
+        g.clear();
+        const lineScale = 1 / this.dagCamera.zoom;
+        const pad = 3 * lineScale;
+        for (let branch of this.highlightedBranches) {
+            g.lineStyle(3 * lineScale, branch.color, 1.0);
+            for (let b of branch.blocks) {
+                const block = this.getBlock(b.selfPtr);
+                if (block !== null && block.block === b) {
+                    g.drawRect(block.x - pad, block.y - pad, block.width + pad * 2, block.height + pad * 2);
+                }
+            }
+        }
+        if (this.highlighted.length === 0) {
+            return;
+        }
+        g.lineStyle(2 * lineScale, HIGHLIGHT_COLOR, 1.0);
+        this.highlighted = this.highlighted.filter(a => {
+            const att = this.getAttestation(a.selfPtr);
+            if (att === null || att.attestation !== a) {
+                return false;
+            }
+            g.drawRect(att.x - pad, att.y - pad, att.width + pad * 2, att.height + pad * 2);
+            return true;
+        });
+    }
+
+    // Show only the blocks and attestations within the region, with their relations.
+    // Relations of objects outside of the region are left out, even if their lines would cross it.
+    // Lines that are still up to date for the zoom are kept, objects outside the region stay dirty.
+    drawDagRelations(region: PIXI.Rectangle) {
+        this.drawnRegion = region;
+        this.drawnZoom = this.dagCamera.zoom;
+        this.dirtyBlocks = [];
+        this.dirtyAttestations = [];
+        const lineScale = 1 / this.dagCamera.zoom;
+        for (let child of this.blocks.children) {
+            this.drawBlockLines(child as PixiBlock, region, lineScale);
+        }
+        for (let child of this.attestations.children) {
+            this.drawAttestationLines(child as PixiAttestation, region, lineScale);
+        }
+    }
+
+    // draw the relations that changed since the region was drawn
+    drawDirtyRelations(region: PIXI.Rectangle) {
+        const lineScale = 1 / this.dagCamera.zoom;
+        for (let block of this.dirtyBlocks) {
+            if (this.getBlock(block.block.selfPtr) === block) {
+                this.drawBlockLines(block, region, lineScale);
+            }
+        }
+        for (let att of this.dirtyAttestations) {
+            if (this.getAttestation(att.attestation.selfPtr) === att) {
+                this.drawAttestationLines(att, region, lineScale);
+            }
+        }
+        this.dirtyBlocks = [];
+        this.dirtyAttestations = [];
+    }
+
+    private drawBlockLines(block: PixiBlock, region: PIXI.Rectangle, lineScale: number) {
+        block.visible = region.contains(block.x, block.y);
+        block.lines.visible = block.visible;
+        if (block.visible && (block.linesDirty || block.linesScale !== lineScale)) {
+            block.drawParentRelation(this.getBlock, lineScale);
+        }
+    }
+
+    private drawAttestationLines(att: PixiAttestation, region: PIXI.Rectangle, lineScale: number) {
+        att.visible = region.contains(att.x, att.y);
+        att.lines.visible = att.visible;
+        if (att.visible && (att.linesDirty || att.linesScale !== lineScale)) {
+            att.drawBlockRelation(lineScale);
+        }
+    }
+
+    // vote lines of the validators that pass the filter, on top of the other relations
+    drawVoteLines() {
+        const focused: Array<ValidatorIndex> = [];
+        if (this.hoveredValidator !== null) {
+            focused.push(this.hoveredValidator);
+        }
+        if (this.focus !== null && this.focus.kind === 'validator') {
+            focused.push(this.focus.index);
+        }
+        const filter = this.voteLineFilter;
+        const include = (att: PixiAttestation) => voteLineIncludes(filter, att.attestation);
+        const maxY = this.dagTop();
+        const origin = this.validators.position;
+        for (let vi of voteLineValidators(filter, this.store, focused)) {
+            const val = this.getValidator(vi);
+            if (val === null) {
+                continue;
+            }
+            const votes: Array<PixiAttestation> = [];
+            for (let a of this.store.votesOf(vi)) {
+                const att = this.getAttestation(a.selfPtr);
+                if (att !== null) votes.push(att);
+            }
+            val.drawVoteRelation(this.voteLines, origin, maxY, votes, include);
+        }
+    }
+
+    drawSelection() {
+        this.selectionMarker.clear();
+        const focused = this.focusedObject();
+        if (focused === null) {
+            return;
+        }
+        let bounds: PIXI.Rectangle;
+        if (focused instanceof PixiValidator) {
+            // the sprite may not be rendered, place it by the grid position instead
+            if (focused.index < this.visibleValFrom || focused.index >= this.visibleValTo) {
+                return;
+            }
+            bounds = new PIXI.Rectangle(this.validators.x + focused.x, this.validators.y + focused.y,
+                focused.width, focused.height);
+        } else {
+            bounds = focused.getBounds();
+        }
+        const pad = 3;
+        this.selectionMarker.lineStyle(2, 0xffff00, 1.0);
+        this.selectionMarker.drawRect(bounds.x - pad, bounds.y - pad, bounds.width + pad * 2, bounds.height + pad * 2);
+    }
+
+    onClick = (e: any) => {
+        const pos = e.data.getLocalPosition(this.app.stage);
+        console.log("click event: ", pos);
+    };
+
+}
@@ -0,0 +1,16 @@
+import {defaultReconnectOptions, reconnectDelay, retryCountdown, statusAfterClose} from "./connection";
+
+const opts = {...defaultReconnectOptions, minDelay: 1000, maxDelay: 5000, growFactor: 2, offlineAfter: 3};
+
+it('grows the reconnect delay up to the maximum', () => {
+    expect([0, 1, 2, 3, 4, 5].map(n => reconnectDelay(opts, n))).toEqual([0, 1000, 2000, 4000, 5000, 5000]);
+});
+
+it('counts down to the next attempt, and goes offline after too many', () => {
+    const first = statusAfterClose(opts, 1, true, 10000);
+    expect(first).toEqual({phase: 'reconnecting', retries: 0, retryAt: 11000});
+    expect(retryCountdown(first, 10100)).toBe(1);
+    expect(retryCountdown(first, 12000)).toBe(0);
+    expect(statusAfterClose(opts, 4, true, 0).phase).toBe('offline');
+    expect(statusAfterClose(opts, 1, false, 0).phase).toBe('offline');
+});
@@ -0,0 +1,66 @@
+import {Options as SocketOptions} from "reconnecting-websocket";
+
+// connecting: the first attempt, before the socket was ever open.
+// offline: the browser is offline, or the server was unreachable for many attempts. Retries continue.
+// stopped: the client closed the connection itself, e.g. because the server is not compatible. No retries.
+export type ConnectionPhase = 'connecting' | 'connected' | 'reconnecting' | 'offline' | 'stopped';
+
+export type ConnectionStatus = {
+    phase: ConnectionPhase;
+    // failed attempts since the connection was last open
+    retries: number;
+    // ms since unix epoch of the next attempt, if one is scheduled
+    retryAt: number | null;
+}
+
+export const initialConnectionStatus: ConnectionStatus = {phase: 'connecting', retries: 0, retryAt: null};
+
+export const stoppedStatus: ConnectionStatus = {phase: 'stopped', retries: 0, retryAt: null};
+
+export type ReconnectOptions = {
+    // ms to wait before the first retry, growing by the factor with every failed retry, up to the max
+    minDelay: number;
+    maxDelay: number;
+    growFactor: number;
+    // failed retries after which the server counts as offline
+    offlineAfter: number;
+}
+
+export const defaultReconnectOptions: ReconnectOptions = {
+    minDelay: 1000,
+    maxDelay: 30000,
+    growFactor: 1.5,
+    offlineAfter: 8,
+};
+
+// What to do with the data of the previous connection, once the socket is open again:
+// resync asks the server for a snapshot and keeps the view until it arrives,
+// reset drops everything and starts over with the new stream.
+export type ReconnectPolicy = 'resync' | 'reset';
+
+export const reconnectPolicies: Array<{policy: ReconnectPolicy, label: string}> = [
+    {policy: 'resync', label: "Resync"},
+    {policy: 'reset', label: "Start over"},
+];
+
+export const socketOptions = (opts: ReconnectOptions): SocketOptions => ({
+    minReconnectionDelay: opts.minDelay,
+    maxReconnectionDelay: opts.maxDelay,
+    reconnectionDelayGrowFactor: opts.growFactor,
+});
+
+// Delay before the given retry, the same way the socket computes it.
+export const reconnectDelay = (opts: ReconnectOptions, retryCount: number): number =>
+    retryCount <= 0 ? 0 : Math.min(opts.minDelay * Math.pow(opts.growFactor, retryCount - 1), opts.maxDelay);
+
+// Status after the socket closed. The socket already counted the retry it scheduled.
+export const statusAfterClose = (opts: ReconnectOptions, retryCount: number, online: boolean,
+                                 now: number = Date.now()): ConnectionStatus => ({
+    phase: !online || retryCount > opts.offlineAfter ? 'offline' : 'reconnecting',
+    retries: Math.max(retryCount - 1, 0),
+    retryAt: now + reconnectDelay(opts, retryCount),
+});
+
+// whole seconds until the next attempt, or null if none is scheduled
+export const retryCountdown = (status: ConnectionStatus, now: number = Date.now()): number | null =>
+    status.retryAt === null ? null : Math.max(Math.ceil((status.retryAt - now) / 1000), 0);
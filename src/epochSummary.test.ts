@@ -0,0 +1,57 @@
+import {AttestationSummary, BlockSummary, HeadSummary, MemoryDiff} from "./protocol";
+import {ChainStore} from "./store";
+import {epochSummaries} from "./epochSummary";
+
+const headSummary = (headBlock: number, slot: number, target: number): HeadSummary => ({
+    headBlock,
+    slot,
+    proposerIndex: 0,
+    validatorCounts: {
+        total: 100, active: 100, slashed: 0, eligible: 100,
+        nonEligible: 0, exiting: 0, withdrawable: 0,
+    },
+    totalStaked: 100,
+    avgBalance: 32e9,
+    depositIndex: 100,
+    eth1Data: {depositRoot: "0x00", depositCount: 100, blockHash: "0x00"},
+    previousFFG: {source: 0, target: 0, head: 0},
+    currentFFG: {source: target, target, head: target},
+});
+
+const block = (selfPtr: number, slot: number, parent: number): BlockSummary =>
+    ({selfPtr, htr: "0x0" + selfPtr, slot, parent});
+
+const att = (selfPtr: number, slot: number, head: number): AttestationSummary =>
+    ({selfPtr, slot, commIndex: 0, head, target: head, source: head});
+
+const diffAt = (diffIndex: number, head: HeadSummary, blocks: Array<BlockSummary>,
+                attestations: Array<AttestationSummary> = []): MemoryDiff => ({
+    diffIndex,
+    previous: {head: diffIndex, finalized: 0, blocks: 0, attestations: 0, latestVotes: 0},
+    head: [head],
+    finalized: [],
+    blocks,
+    attestations,
+    latestVotes: [],
+});
+
+it('summarizes blocks, empty slots, attestations and participation per epoch', () => {
+    const store = new ChainStore();
+    store.applyDiff(diffAt(0, headSummary(1, 31, 70), [block(0, 30, 100), block(1, 31, 0)], [att(0, 31, 1)]));
+    // slot 32 is empty, 34 forks off 33
+    store.applyDiff(diffAt(1, headSummary(3, 35, 20), [block(2, 33, 1), block(3, 35, 2), block(4, 34, 2)],
+        [att(1, 33, 2), att(2, 35, 3)]));
+
+    const summaries = epochSummaries(store);
+    expect(summaries.map(s => s.epoch)).toEqual([0, 1]);
+    expect(summaries[0]).toMatchObject({
+        slots: 2, proposed: 2, empty: 0, forked: 0, attestations: 1, targetParticipation: 0.7, justified: true,
+    });
+    expect(summaries[1]).toMatchObject({
+        slots: 4, proposed: 2, empty: 2, forked: 1, attestations: 2, targetParticipation: 0.2, justified: false,
+    });
+});
+
+it('has no summaries without data', () => {
+    expect(epochSummaries(new ChainStore())).toEqual([]);
+});
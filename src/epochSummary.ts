@@ -0,0 +1,82 @@
+import {BlockPtr, Epoch, HeadSummary} from "./protocol";
+import {ChainStore} from "./store";
+import {SLOTS_PER_EPOCH, epochStartSlot, ffgParticipation, finalityStatus, slotToEpoch} from "./chain";
+
+export type EpochSummary = {
+    epoch: Epoch;
+    // slots of the epoch that are in memory: after the oldest block, up to the head
+    slots: number;
+    // slots with a canonical block, and the other slots
+    proposed: number;
+    empty: number;
+    // blocks of the epoch that are not on the canonical chain
+    forked: number;
+    attestations: number;
+    // FFG target votes of the epoch as fraction of the stake, from its last head summary. Null without one.
+    targetParticipation: number | null;
+    justified: boolean;
+    finalized: boolean;
+}
+
+// Summaries of the epochs in memory, oldest first, up to the epoch of the latest head.
+export const epochSummaries = (store: ChainStore): Array<EpochSummary> => {
+    const status = finalityStatus(store);
+    const blocks = Object.values(store.blocks);
+    if (status === null || blocks.length === 0) {
+        return [];
+    }
+    const oldestSlot = blocks.reduce((m, b) => Math.min(m, b.slot), status.headSlot);
+    const fromEpoch = slotToEpoch(oldestSlot);
+    const summaries: Array<EpochSummary> = [];
+    for (let epoch = fromEpoch; epoch <= status.headEpoch; epoch++) {
+        const start = Math.max(epochStartSlot(epoch), oldestSlot);
+        const end = Math.min(epochStartSlot(epoch) + SLOTS_PER_EPOCH - 1, status.headSlot);
+        summaries.push({
+            epoch,
+            slots: end - start + 1,
+            proposed: 0,
+            empty: end - start + 1,
+            forked: 0,
+            attestations: 0,
+            targetParticipation: null,
+            justified: status.justifiedEpochs.indexOf(epoch) >= 0,
+            finalized: status.finalizedEpoch !== null && epoch <= status.finalizedEpoch,
+        });
+    }
+    const summaryOf = (slot: number): EpochSummary | undefined => summaries[slotToEpoch(slot) - fromEpoch];
+
+    const canonical: Record<BlockPtr, boolean> = {};
+    for (let b of store.canonicalChain()) {
+        canonical[b.selfPtr] = true;
+    }
+    for (let b of blocks) {
+        const summary = summaryOf(b.slot);
+        if (summary === undefined) {
+            continue;
+        }
+        if (canonical[b.selfPtr]) {
+            summary.proposed += 1;
+            summary.empty -= 1;
+        } else {
+            summary.forked += 1;
+        }
+    }
+    for (let att of Object.values(store.attestations)) {
+        const summary = summaryOf(att.slot);
+        if (summary !== undefined) {
+            summary.attestations += 1;
+        }
+    }
+    // heads are in order, so the last one of each epoch wins
+    const lastHeads: Record<Epoch, HeadSummary> = {};
+    for (let h of store.head) {
+        lastHeads[slotToEpoch(h.slot)] = h;
+    }
+    for (let summary of summaries) {
+        const h = lastHeads[summary.epoch];
+        if (h !== undefined) {
+            summary.targetParticipation = ffgParticipation(h.currentFFG, h.totalStaked).target;
+        }
+    }
+    return summaries;
+};
@@ -0,0 +1,72 @@
+import {BlockSummary, HeadSummary, MemoryDiff} from "./protocol";
+import {ChainStore} from "./store";
+import {EventTracker, ReorgEvent} from "./events";
+
+const headSummary = (headBlock: number, slot: number, validators: number): HeadSummary => ({
+    headBlock,
+    slot,
+    proposerIndex: 0,
+    validatorCounts: {
+        total: validators, active: validators, slashed: 0, eligible: validators,
+        nonEligible: 0, exiting: 0, withdrawable: 0,
+    },
+    totalStaked: validators * 32e9,
+    avgBalance: 32e9,
+    depositIndex: validators,
+    eth1Data: {depositRoot: "0x00", depositCount: validators, blockHash: "0x00"},
+    previousFFG: {source: 0, target: 0, head: 0},
+    currentFFG: {source: 0, target: 0, head: 0},
+});
+
+const block = (selfPtr: number, slot: number, parent: number): BlockSummary =>
+    ({selfPtr, htr: "0x0" + selfPtr, slot, parent});
+
+const diffAt = (diffIndex: number, head: HeadSummary, blocks: Array<BlockSummary>, finalized: Array<number> = []): MemoryDiff => ({
+    diffIndex,
+    previous: {head: diffIndex, finalized: 0, blocks: 0, attestations: 0, latestVotes: 0},
+    head: [head],
+    finalized,
+    blocks,
+    attestations: [],
+    latestVotes: [],
+});
+
+const track = (diffs: Array<MemoryDiff>) => {
+    const store = new ChainStore();
+    const tracker = new EventTracker();
+    store.subscribe(update => tracker.onUpdate(store, update, 0));
+    for (let d of diffs) {
+        store.applyDiff(d);
+    }
+    return tracker;
+};
+
+// 0 <- 1 <- 3
+//   <- 2 <- 4
+it('detects a reorg to a sibling branch', () => {
+    const tracker = track([
+        diffAt(0, headSummary(1, 1, 8), [block(0, 0, 100), block(1, 1, 0)]),
+        diffAt(1, headSummary(2, 2, 8), [block(2, 2, 0)]),
+        diffAt(2, headSummary(4, 3, 8), [block(4, 3, 2)]),
+    ]);
+    const reorgs = tracker.events.filter(e => e.kind === 'reorg') as Array<ReorgEvent>;
+    expect(reorgs.length).toBe(1);
+    const reorg = reorgs[0];
+    expect(reorg.depth).toBe(1);
+    expect(reorg.commonAncestor!.selfPtr).toBe(0);
+    expect(reorg.oldHeadSlot).toBe(1);
+    expect(reorg.newHeadSlot).toBe(2);
+    expect(reorg.oldBranch.map(b => b.selfPtr)).toEqual([1]);
+    expect(reorg.newBranch.map(b => b.selfPtr)).toEqual([2]);
+});
+
+it('records finalized checkpoints and validator-set growth, newest first', () => {
+    const tracker = track([
+        diffAt(0, headSummary(0, 0, 8), [block(0, 0, 100)]),
+        diffAt(1, headSummary(1, 1, 12), [block(1, 1, 0)]),
+        diffAt(2, headSummary(1, 2, 12), [], [0]),
+    ]);
+    expect(tracker.events.map(e => e.kind)).toEqual(['finalized', 'validators']);
+    expect(tracker.events[1]).toMatchObject({from: 8, to: 12, slot: 1});
+    expect(tracker.events[0]).toMatchObject({epoch: 0, slot: 2});
+});
@@ -0,0 +1,152 @@
+import {BlockPtr, BlockSummary, Epoch, HeadSummary, Slot} from "./protocol";
+import {ChainStore, StoreUpdate} from "./store";
+import {slotToEpoch} from "./chain";
+
+// The latest head moved to a block that does not descend from the previous head.
+export type ReorgEvent = {
+    kind: 'reorg';
+    id: number;
+    // ms since unix epoch
+    time: number;
+    // slot of the new head
+    slot: Slot;
+    // blocks of the old branch that are no longer canonical
+    depth: number;
+    // null if the common ancestor was already pruned
+    commonAncestor: BlockSummary | null;
+    oldHeadSlot: Slot;
+    newHeadSlot: Slot;
+    // blocks of each branch, from the head down to (not including) the common ancestor
+    oldBranch: Array<BlockSummary>;
+    newBranch: Array<BlockSummary>;
+}
+
+export type FinalizedEvent = {
+    kind: 'finalized';
+    id: number;
+    time: number;
+    slot: Slot;
+    // null if the block is not in memory
+    block: BlockSummary | null;
+    epoch: Epoch | null;
+}
+
+export type ValidatorsEvent = {
+    kind: 'validators';
+    id: number;
+    time: number;
+    slot: Slot;
+    from: number;
+    to: number;
+}
+
+export type ChainEvent = ReorgEvent | FinalizedEvent | ValidatorsEvent;
+
+// keep this many events in the timeline
+const MAX_EVENTS = 200;
+
+// Walk from the block back through its ancestors, until the stop condition holds for a block.
+// Returns the blocks before that one and the block it stopped at, or null if the chain in memory ends first.
+const walkBack = (store: ChainStore, from: BlockPtr, stop: (b: BlockSummary) => boolean):
+    {branch: Array<BlockSummary>, stop: BlockSummary} | null => {
+    const branch: Array<BlockSummary> = [];
+    let ptr = from;
+    while (true) {
+        const b = store.getBlock(ptr);
+        const entry = store.tree[ptr];
+        if (b === null || !entry) {
+            return null;
+        }
+        if (stop(b)) {
+            return {branch, stop: b};
+        }
+        branch.push(b);
+        ptr = entry.parent;
+    }
+};
+
+// Records notable chain events from the store updates: reorgs, new finalized checkpoints and validator-set growth.
+export class EventTracker {
+    // newest first
+    events: Array<ChainEvent> = [];
+
+    private nextId: number = 0;
+    private prevHead: HeadSummary | null = null;
+    private prevValCount: number | null = null;
+
+    // Process a store update, and return the new events.
+    onUpdate(store: ChainStore, update: StoreUpdate, now: number = Date.now()): Array<ChainEvent> {
+        if (update.reset) {
+            // a reset without data switches to another chain, a resync continues the same chain.
+            if (update.diff === null) {
+                this.events = [];
+            }
+            this.prevHead = null;
+            this.prevValCount = null;
+        }
+        const diff = update.diff;
+        if (diff === null) {
+            return [];
+        }
+        const out: Array<ChainEvent> = [];
+        for (let head of diff.head) {
+            if (this.prevHead !== null && this.prevHead.headBlock !== head.headBlock) {
+                const reorg = this.detectReorg(store, this.prevHead, head, now);
+                if (reorg !== null) {
+                    out.push(reorg);
+                }
+            }
+            if (this.prevValCount !== null && head.validatorCounts.total > this.prevValCount) {
+                out.push({
+                    kind: 'validators', id: this.nextId++, time: now, slot: head.slot,
+                    from: this.prevValCount, to: head.validatorCounts.total,
+                });
+            }
+            this.prevHead = head;
+            this.prevValCount = head.validatorCounts.total;
+        }
+        // the finalized checkpoints of a resync are not new
+        if (!update.reset) {
+            const slot = this.prevHead === null ? 0 : this.prevHead.slot;
+            for (let ptr of diff.finalized) {
+                const block = store.getBlock(ptr);
+                out.push({
+                    kind: 'finalized', id: this.nextId++, time: now, slot, block,
+                    epoch: block === null ? null : slotToEpoch(block.slot),
+                });
+            }
+        }
+        if (out.length > 0) {
+            this.events = out.slice().reverse().concat(this.events).slice(0, MAX_EVENTS);
+        }
+        return out;
+    }
+
+    // Null if the new head descends from the old head, or if the blocks in memory cannot tell.
+    private detectReorg(store: ChainStore, prev: HeadSummary, head: HeadSummary, now: number): ReorgEvent | null {
+        const oldHead = store.getBlock(prev.headBlock);
+        const newHead = store.getBlock(head.headBlock);
+        if (oldHead === null || newHead === null) {
+            return null;
+        }
+        const toOld = walkBack(store, newHead.selfPtr, b => b.slot <= oldHead.slot);
+        if (toOld === null || toOld.stop.selfPtr === oldHead.selfPtr) {
+            return null;
+        }
+        const oldChain = store.canonicalChain(oldHead.selfPtr);
+        const oldAncestors: Record<BlockPtr, boolean> = {};
+        for (let b of oldChain) {
+            oldAncestors[b.selfPtr] = true;
+        }
+        const toAncestor = walkBack(store, newHead.selfPtr, b => oldAncestors[b.selfPtr] === true);
+        const commonAncestor = toAncestor === null ? null : toAncestor.stop;
+        const newBranch = toAncestor === null ? store.canonicalChain(newHead.selfPtr) : toAncestor.branch;
+        const oldBranch = commonAncestor === null ? oldChain : oldChain.slice(0, oldChain.indexOf(commonAncestor));
+        return {
+            kind: 'reorg', id: this.nextId++, time: now, slot: head.slot,
+            depth: oldBranch.length, commonAncestor,
+            oldHeadSlot: oldHead.slot, newHeadSlot: newHead.slot,
+            oldBranch, newBranch,
+        };
+    }
+}
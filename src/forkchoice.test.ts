@@ -0,0 +1,61 @@
+import {HeadSummary, MemoryDiff} from "./protocol";
+import {ChainStore} from "./store";
+import {computeForkChoice} from "./forkchoice";
+
+const headSummary = (headBlock: number, slot: number, validators: number): HeadSummary => ({
+    headBlock,
+    slot,
+    proposerIndex: 0,
+    validatorCounts: {
+        total: validators, active: validators, slashed: 0, eligible: validators,
+        nonEligible: 0, exiting: 0, withdrawable: 0,
+    },
+    totalStaked: validators * 32e9,
+    avgBalance: 32e9,
+    depositIndex: validators,
+    eth1Data: {depositRoot: "0x00", depositCount: validators, blockHash: "0x00"},
+    previousFFG: {source: 0, target: 0, head: 0},
+    currentFFG: {source: 0, target: 0, head: 0},
+});
+
+// 0 <- 1 <- 2 (head)
+//   <- 3
+const forkedDiff: MemoryDiff = {
+    diffIndex: 0,
+    previous: {head: 0, finalized: 0, blocks: 0, attestations: 0, latestVotes: 0},
+    head: [headSummary(2, 3, 4)],
+    finalized: [0],
+    blocks: [
+        {selfPtr: 0, htr: "0x00", slot: 1, parent: 100},
+        {selfPtr: 1, htr: "0x01", slot: 2, parent: 0},
+        {selfPtr: 2, htr: "0x02", slot: 3, parent: 1},
+        {selfPtr: 3, htr: "0x03", slot: 3, parent: 0},
+    ],
+    attestations: [
+        {selfPtr: 0, slot: 1, commIndex: 0, head: 0, target: 0, source: 0},
+        {selfPtr: 1, slot: 3, commIndex: 0, head: 2, target: 0, source: 0},
+        {selfPtr: 2, slot: 3, commIndex: 1, head: 3, target: 0, source: 0},
+    ],
+    latestVotes: [
+        // validator 0 moved from block 0 to block 2, only the latest vote counts
+        {validatorIndex: 0, attestationPtr: 0},
+        {validatorIndex: 0, attestationPtr: 1},
+        {validatorIndex: 1, attestationPtr: 1},
+        {validatorIndex: 2, attestationPtr: 2},
+    ],
+};
+
+it('sums latest votes over subtrees', () => {
+    const store = new ChainStore();
+    store.applyDiff(forkedDiff);
+    const fc = computeForkChoice(store);
+    expect(fc.weights).toEqual({0: 3, 1: 2, 2: 2, 3: 1});
+    expect(fc.maxWeight).toBe(3);
+});
+
+it('follows the canonical chain from the head back to the finalized block', () => {
+    const store = new ChainStore();
+    store.applyDiff(forkedDiff);
+    store.applyDiff({...forkedDiff, diffIndex: 1, blocks: [], attestations: [], latestVotes: [], finalized: [1]});
+    expect(computeForkChoice(store).canonical).toEqual([2, 1]);
+});
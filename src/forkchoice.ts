@@ -0,0 +1,52 @@
+import {BlockPtr} from "./protocol";
+import {ChainStore} from "./store";
+
+export type ForkChoice = {
+    // LMD-GHOST weight of each block: the latest votes on the block or any of its descendants.
+    weights: Record<BlockPtr, number>;
+    // weight of the heaviest block, for scaling
+    maxWeight: number;
+    // the canonical chain, from the head back to the last finalized block (inclusive)
+    canonical: Array<BlockPtr>;
+}
+
+// Compute the fork-choice weights from the latest vote of each validator.
+// Every validator counts equally, effective balances are not known to the client.
+export const computeForkChoice = (store: ChainStore): ForkChoice => {
+    const weights: Record<BlockPtr, number> = {};
+    for (let vi = 0; vi < store.valCount; vi++) {
+        const votes = store.lastVotes[vi];
+        if (!votes || votes.length === 0) {
+            continue;
+        }
+        // votes are sorted most recent first
+        const att = store.attestations[votes[0]];
+        if (att && store.blocks[att.head]) {
+            weights[att.head] = (weights[att.head] || 0) + 1;
+        }
+    }
+    // add the weight of each block to its parent, children first
+    const blocks = Object.values(store.blocks).sort((a, b) => b.slot - a.slot);
+    let maxWeight = 0;
+    for (let b of blocks) {
+        const w = weights[b.selfPtr] || 0;
+        weights[b.selfPtr] = w;
+        if (w > maxWeight) maxWeight = w;
+        const entry = store.tree[b.selfPtr];
+        if (entry && store.blocks[entry.parent] && w > 0) {
+            weights[entry.parent] = (weights[entry.parent] || 0) + w;
+        }
+    }
+
+    const canonical: Array<BlockPtr> = [];
+    const cp = store.latestCheckpoint();
+    const finalizedBlock = cp !== null ? store.checkpointBlock(cp) : null;
+    const finalized = finalizedBlock !== null ? finalizedBlock.selfPtr : null;
+    for (let b of store.canonicalChain()) {
+        canonical.push(b.selfPtr);
+        if (b.selfPtr === finalized) {
+            break;
+        }
+    }
+    return {weights, maxWeight, canonical};
+};
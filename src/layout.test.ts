@@ -0,0 +1,100 @@
+import {AttestationSummary, BlockSummary, HeadSummary} from "./protocol";
+import {ChainStore} from "./store";
+import {defaultLayoutSettings, layoutChanges, layoutDag} from "./layout";
+
+const headSummary = (headBlock: number, slot: number): HeadSummary => ({
+    headBlock,
+    slot,
+    proposerIndex: 0,
+    validatorCounts: {
+        total: 8, active: 8, slashed: 0, eligible: 8,
+        nonEligible: 0, exiting: 0, withdrawable: 0,
+    },
+    totalStaked: 8 * 32e9,
+    avgBalance: 32e9,
+    depositIndex: 8,
+    eth1Data: {depositRoot: "0x00", depositCount: 8, blockHash: "0x00"},
+    previousFFG: {source: 0, target: 0, head: 0},
+    currentFFG: {source: 0, target: 0, head: 0},
+});
+
+const block = (selfPtr: number, slot: number, parent: number): BlockSummary =>
+    ({selfPtr, htr: "0x0" + selfPtr, slot, parent});
+
+const att = (selfPtr: number, slot: number, head: number): AttestationSummary =>
+    ({selfPtr, slot, commIndex: 0, head, target: head, source: head});
+
+// canonical 0 <- 1 <- 2 <- 3 <- 7, with forks 4 and 6 from 1 at slot 2, and 5 from 3 at slot 4.
+const forkedStore = (attestations: Array<AttestationSummary> = []) => {
+    const store = new ChainStore();
+    store.applyDiff({
+        diffIndex: 0,
+        previous: {head: 0, finalized: 0, blocks: 0, attestations: 0, latestVotes: 0},
+        head: [headSummary(7, 6)],
+        finalized: [],
+        blocks: [
+            block(0, 0, 100), block(1, 1, 0), block(2, 2, 1), block(3, 3, 2), block(7, 6, 3),
+            block(4, 2, 1), block(5, 4, 3), block(6, 2, 1),
+        ],
+        attestations,
+        latestVotes: [],
+    });
+    return store;
+};
+
+it('packs forks into the nearest free row', () => {
+    const layout = layoutDag(forkedStore(), {...defaultLayoutSettings, kind: 'compact'})!;
+    const row = (ptr: number) => layout.blocks[ptr].y / defaultLayoutSettings.forkSpacing;
+    expect([0, 1, 2, 3, 7].map(row)).toEqual([0, 0, 0, 0, 0]);
+    // 5 forks after 4 ended, so they share a row
+    expect(row(5)).toBe(1);
+    expect(row(4)).toBe(1);
+    expect(row(6)).toBe(2);
+});
+
+it('runs time down in the vertical layout, and groups epochs in the epochs layout', () => {
+    const vertical = layoutDag(forkedStore(), {...defaultLayoutSettings, kind: 'vertical'})!;
+    expect(vertical.timeAxis).toBe('y');
+    expect(vertical.blocks[5]).toEqual({x: 40, y: 4 * 30});
+
+    const epochs = layoutDag(forkedStore(), {...defaultLayoutSettings, kind: 'epochs', epochGap: 50})!;
+    expect(epochs.slotPos(31)).toBe(31 * 30);
+    expect(epochs.slotPos(32)).toBe(32 * 30 + 50);
+});
+
+it('starts another attestation stack after the limit', () => {
+    const store = forkedStore([att(0, 6, 7), att(1, 6, 7), att(2, 6, 7)]);
+    const layout = layoutDag(store, {...defaultLayoutSettings, attStackLimit: 2})!;
+    expect([0, 1, 2].map(ptr => layout.attestations[ptr])).toEqual([
+        {x: 6 * 30 + 20, y: 20},
+        {x: 6 * 30 + 20, y: 28},
+        {x: 6 * 30 + 28, y: 20},
+    ]);
+});
+
+it('only reports the relations with an end that moved', () => {
+    const store = forkedStore([att(0, 3, 3), att(1, 5, 5), att(2, 6, 7)]);
+    const settings = {...defaultLayoutSettings, kind: 'compact' as const};
+    const first = layoutDag(store, settings)!;
+    expect(layoutChanges(store, null, first).blocks.length).toBe(8);
+
+    // a new head extends the canonical chain, nothing else moves
+    store.applyDiff({
+        diffIndex: 1,
+        previous: {head: 1, finalized: 0, blocks: 8, attestations: 3, latestVotes: 0},
+        head: [headSummary(8, 7)],
+        finalized: [],
+        blocks: [block(8, 7, 7)],
+        attestations: [att(3, 7, 8)],
+        latestVotes: [],
+    });
+    const second = layoutDag(store, settings)!;
+    expect(layoutChanges(store, first, second)).toEqual({blocks: [8], attestations: [3]});
+    expect(layoutChanges(store, second, second)).toEqual({blocks: [], attestations: []});
+
+    // another layout moves everything, but the first block at the origin
+    const vertical = layoutDag(store, {...settings, kind: 'vertical'})!;
+    const changes = layoutChanges(store, second, vertical);
+    expect(changes.blocks.sort()).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+    expect(changes.attestations.length).toBe(4);
+});
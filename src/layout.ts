@@ -0,0 +1,283 @@
+import {AttestationPtr, BlockPtr, BlockSummary, Slot} from "./protocol";
+import {ChainStore} from "./store";
+import {slotToEpoch} from "./chain";
+
+// tree: forks in the order of a depth-first walk from the latest head, a new row for every fork in a slot.
+// compact: forks packed into as few rows as possible, each next to the row it forked from,
+// so edges stay short and cross few other forks.
+// epochs: compact, with the slots of each epoch grouped into a column.
+// vertical: compact, with time going down instead of right.
+export type LayoutKind = 'tree' | 'compact' | 'epochs' | 'vertical';
+
+export const layoutKinds: Array<{kind: LayoutKind, label: string}> = [
+    {kind: 'tree', label: "Tree"},
+    {kind: 'compact', label: "Compact forks"},
+    {kind: 'epochs', label: "Epoch columns"},
+    {kind: 'vertical', label: "Vertical"},
+];
+
+// Distances in DAG content pixels.
+export type LayoutSettings = {
+    kind: LayoutKind;
+    // between slots along the time axis, and between rows of forks across it
+    slotSpacing: number;
+    forkSpacing: number;
+    // extra space between epochs, in the epochs layout
+    epochGap: number;
+    // attestations are placed after their slot by the offset, and beside the block they vote for by the margin
+    attOffset: number;
+    attMargin: number;
+    // between the attestations stacked for the same block
+    attStep: number;
+    // attestations per stack before starting another stack next to it, 0 for no limit
+    attStackLimit: number;
+}
+
+export const defaultLayoutSettings: LayoutSettings = {
+    kind: 'tree',
+    slotSpacing: 30,
+    forkSpacing: 40,
+    epochGap: 30,
+    attOffset: 20,
+    attMargin: 20,
+    attStep: 8,
+    attStackLimit: 0,
+};
+
+export type Position = {
+    x: number;
+    y: number;
+}
+
+export type DagLayout = {
+    // the axis that time runs along: x to the right, or y downwards
+    timeAxis: 'x' | 'y';
+    slotSpacing: number;
+    // position of the slot along the time axis
+    slotPos: (slot: Slot) => number;
+    blocks: Record<BlockPtr, Position>;
+    attestations: Record<AttestationPtr, Position>;
+}
+
+// Row of each block in the order of a depth-first walk from the head:
+// every time we find unseen children, we order them up later in their slot column.
+const treeRows = (store: ChainStore, headBlock: BlockPtr): Record<BlockPtr, number> => {
+    // order index of each block within their slot
+    const order: Record<BlockPtr, number> = {};
+    // blocks known for each slot
+    const slotHeights: Record<Slot, number> = {};
+    order[headBlock] = 0;
+
+    const processBlock = (b: BlockPtr) => {
+        const treeData = store.tree[b];
+        if (!treeData) {
+            return
+        }
+        if (slotHeights.hasOwnProperty(treeData.slot)) {
+            slotHeights[treeData.slot] += 1
+        } else {
+            slotHeights[treeData.slot] = 1
+        }
+        order[b] = slotHeights[treeData.slot] - 1;
+        for (let child of treeData.children) {
+            if (!order.hasOwnProperty(child)) {
+                processBlock(child)
+            }
+        }
+    };
+    // walk from the head back up the tree, and order blocks as we go.
+    let block = headBlock;
+    while (true) {
+        const treeData = store.tree[block];
+        if (!treeData) {
+            break
+        }
+        processBlock(block);
+        block = treeData.parent;
+    }
+    // blocks that are not connected to the head, e.g. after their ancestors were pruned, go below.
+    for (let b of Object.values(store.blocks)) {
+        if (!order.hasOwnProperty(b.selfPtr)) {
+            processBlock(b.selfPtr);
+        }
+    }
+    return order;
+};
+
+// A run of blocks that each continue the previous one, drawn in a single row.
+type Branch = {
+    blocks: Array<BlockSummary>;
+    // the block it forked from, if in memory
+    parent: BlockSummary | null;
+    // latest slot of the branch and its forks
+    reach: Slot;
+}
+
+// Row of each block, with the branches packed into rows like intervals:
+// the canonical chain gets the top row, every other branch the free row nearest to the row of its parent.
+const compactRows = (store: ChainStore, headBlock: BlockPtr): Record<BlockPtr, number> => {
+    const canonical: Record<BlockPtr, boolean> = {};
+    for (let b of store.canonicalChain(headBlock)) {
+        canonical[b.selfPtr] = true;
+    }
+    // children have later slots than their parent, so going back in time sees the children first.
+    const bySlot = Object.values(store.blocks).sort((a, b) => b.slot - a.slot);
+    const reach: Record<BlockPtr, Slot> = {};
+    const children = (b: BlockSummary): Array<BlockSummary> => {
+        const entry = store.tree[b.selfPtr];
+        return entry ? entry.children.map(c => store.blocks[c]).filter(c => c !== undefined) : [];
+    };
+    for (let b of bySlot) {
+        reach[b.selfPtr] = children(b).reduce((r, c) => Math.max(r, reach[c.selfPtr]), b.slot);
+    }
+    // the child that continues the branch: the canonical one, or else the one that reaches furthest
+    const mainChild = (b: BlockSummary): BlockSummary | null => children(b).reduce((best: BlockSummary | null, c) => {
+        if (best === null || canonical[c.selfPtr] || (!canonical[best.selfPtr] && reach[c.selfPtr] > reach[best.selfPtr])) {
+            return c;
+        }
+        return best;
+    }, null);
+    const branchFrom = (start: BlockSummary, parent: BlockSummary | null): Branch => {
+        const blocks = [start];
+        let next = mainChild(start);
+        while (next !== null) {
+            blocks.push(next);
+            next = mainChild(next);
+        }
+        return {blocks, parent, reach: reach[start.selfPtr]};
+    };
+
+    // occupied slot intervals of each row, a branch occupies its row from the slot of its parent on.
+    const rows: Array<Array<[Slot, Slot]>> = [];
+    const isFree = (row: number, from: Slot, to: Slot) =>
+        (rows[row] || []).every(([f, t]) => to < f || from > t);
+    const rowOf: Record<BlockPtr, number> = {};
+    const place = (branch: Branch, preferred: number, minRow: number) => {
+        const from = branch.parent === null ? branch.blocks[0].slot : branch.parent.slot;
+        const to = branch.blocks[branch.blocks.length - 1].slot;
+        let row = preferred;
+        for (let d = 0; ; d++) {
+            if (preferred + d >= minRow && isFree(preferred + d, from, to)) {
+                row = preferred + d;
+                break;
+            }
+            if (d > 0 && preferred - d >= minRow && isFree(preferred - d, from, to)) {
+                row = preferred - d;
+                break;
+            }
+        }
+        (rows[row] = rows[row] || []).push([from, to]);
+        for (let b of branch.blocks) {
+            rowOf[b.selfPtr] = row;
+        }
+    };
+    // place the branch, then its forks, breadth-first: the forks that reach furthest get the nearest rows.
+    const placeTree = (root: Branch, minRow: number) => {
+        place(root, minRow, minRow);
+        const queue = [root];
+        while (queue.length > 0) {
+            const branch = queue.shift()!;
+            const forks: Array<Branch> = [];
+            for (let b of branch.blocks) {
+                const main = mainChild(b);
+                for (let c of children(b)) {
+                    if (c !== main) {
+                        forks.push(branchFrom(c, b));
+                    }
+                }
+            }
+            forks.sort((a, b) => b.reach - a.reach);
+            for (let fork of forks) {
+                place(fork, rowOf[fork.parent!.selfPtr], 1);
+                queue.push(fork);
+            }
+        }
+    };
+
+    // roots: blocks whose parent is not in memory. The one of the canonical chain goes first, on the top row.
+    const hasParent = (b: BlockSummary) => {
+        const entry = store.tree[b.selfPtr];
+        return entry !== undefined && store.blocks[entry.parent] !== undefined;
+    };
+    const roots = bySlot.filter(b => !hasParent(b))
+        .map(b => branchFrom(b, null))
+        .sort((a, b) => (canonical[b.blocks[0].selfPtr] ? 1 : 0) - (canonical[a.blocks[0].selfPtr] ? 1 : 0)
+            || b.reach - a.reach);
+    for (let root of roots) {
+        placeTree(root, canonical[root.blocks[0].selfPtr] ? 0 : 1);
+    }
+    return rowOf;
+};
+
+// Position the blocks and attestations of the store in the DAG: along the time axis by slot,
+// across it by the row of the fork, with the canonical chain of the latest head on top.
+// Attestations are stacked beside the block they vote for.
+// Returns null if there is no head to lay out from.
+export const layoutDag = (store: ChainStore, settings: LayoutSettings = defaultLayoutSettings): DagLayout | null => {
+    const head = store.latestHead();
+    if (head === null) {
+        return null;
+    }
+    const rows = settings.kind === 'tree' ? treeRows(store, head.headBlock) : compactRows(store, head.headBlock);
+    const timeAxis = settings.kind === 'vertical' ? 'y' : 'x';
+    const slotPos = settings.kind === 'epochs'
+        ? (slot: Slot) => slot * settings.slotSpacing + slotToEpoch(slot) * settings.epochGap
+        : (slot: Slot) => slot * settings.slotSpacing;
+    const position = (time: number, across: number): Position =>
+        timeAxis === 'x' ? {x: time, y: across} : {x: across, y: time};
+    const rowOf = (b: BlockPtr) => rows.hasOwnProperty(b) ? rows[b] : 0;
+
+    const blocks: Record<BlockPtr, Position> = {};
+    for (let b of Object.values(store.blocks)) {
+        blocks[b.selfPtr] = position(slotPos(b.slot), rowOf(b.selfPtr) * settings.forkSpacing);
+    }
+    const attestations: Record<AttestationPtr, Position> = {};
+    const attCounts: Record<BlockPtr, number> = {};
+    for (let att of Object.values(store.attestations)) {
+        const attOrder = attCounts[att.head] || 0;
+        attCounts[att.head] = attOrder + 1;
+        const limit = settings.attStackLimit;
+        const stack = limit > 0 ? Math.floor(attOrder / limit) : 0;
+        const inStack = limit > 0 ? attOrder % limit : attOrder;
+        attestations[att.selfPtr] = position(
+            slotPos(att.slot) + settings.attOffset + stack * settings.attStep,
+            rowOf(att.head) * settings.forkSpacing + settings.attMargin + inStack * settings.attStep);
+    }
+    return {timeAxis, slotSpacing: settings.slotSpacing, slotPos, blocks, attestations};
+};
+
+// Relations to draw again after laying out again. Relations that keep their ends in place stay as they are drawn.
+export type LayoutChanges = {
+    // blocks whose edge to the parent moved: the block or its parent moved
+    blocks: Array<BlockPtr>;
+    // attestations whose lines moved: the attestation or a block it votes for moved
+    attestations: Array<AttestationPtr>;
+}
+
+const samePosition = (a: Position | undefined, b: Position | undefined): boolean =>
+    a !== undefined && b !== undefined && a.x === b.x && a.y === b.y;
+
+// The relations of the store with an end that moved from the previous layout to the next.
+// Without a previous layout, everything moved.
+export const layoutChanges = (store: ChainStore, prev: DagLayout | null, next: DagLayout): LayoutChanges => {
+    const moved: Record<BlockPtr, boolean> = {};
+    for (let b of Object.values(store.blocks)) {
+        if (prev === null || !samePosition(prev.blocks[b.selfPtr], next.blocks[b.selfPtr])) {
+            moved[b.selfPtr] = true;
+        }
+    }
+    const blocks: Array<BlockPtr> = [];
+    for (let b of Object.values(store.blocks)) {
+        if (moved[b.selfPtr] || moved[b.parent]) {
+            blocks.push(b.selfPtr);
+        }
+    }
+    const attestations: Array<AttestationPtr> = [];
+    for (let a of Object.values(store.attestations)) {
+        if (prev === null || !samePosition(prev.attestations[a.selfPtr], next.attestations[a.selfPtr])
+            || moved[a.head] || moved[a.target] || moved[a.source]) {
+            attestations.push(a.selfPtr);
+        }
+    }
+    return {blocks, attestations};
+};
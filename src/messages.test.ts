@@ -0,0 +1,52 @@
+import {checkCompatibility, defaultMemoryLimits} from "./protocol";
+import {DecodeStats, decodeBinary, decodeJsonMessage, errorPath} from "./messages";
+
+const diff = {
+    diffIndex: 1,
+    previous: {head: 0, finalized: 0, blocks: 0, attestations: 0, latestVotes: 0},
+    head: [],
+    finalized: [],
+    blocks: [{selfPtr: 0, htr: "0x00", slot: 1, parent: 100}],
+    attestations: [],
+    latestVotes: [],
+};
+
+it('routes messages by type, and ignores unknown fields', () => {
+    const res = decodeJsonMessage(JSON.stringify({...diff, newSection: [1, 2], blocks: [{...diff.blocks[0], extra: true}]}));
+    expect(res.ok && res.msg.type).toBe('diff');
+    const info = decodeJsonMessage(JSON.stringify({type: 'info', protocol: {major: 1, minor: 3}, server: "eth2wtf-server"}));
+    expect(info).toEqual({ok: true, msg: {type: 'info', info: {
+        type: 'info', protocol: {major: 1, minor: 3}, server: "eth2wtf-server", limits: undefined,
+    }}});
+    // servers that do not send the latest votes limit get the default one
+    const limits = {heads: 8, finalized: 4, blocks: 32, attestations: 64};
+    const withLimits = decodeJsonMessage(JSON.stringify({type: 'info', protocol: {major: 1, minor: 3}, limits}));
+    expect(withLimits.ok && withLimits.msg.type === 'info' && withLimits.msg.info.limits)
+        .toEqual({...limits, latestVotes: defaultMemoryLimits.latestVotes});
+    const err = decodeJsonMessage(JSON.stringify({type: 'error', message: "diff 3 is gone"}));
+    expect(err.ok && err.msg.type).toBe('error');
+});
+
+it('reports where decoding failed', () => {
+    const bad = {...diff, blocks: [{...diff.blocks[0], slot: "one"}]};
+    const res = decodeJsonMessage(JSON.stringify(bad));
+    expect(res).toMatchObject({ok: false, failure: {path: "blocks[0].slot"}});
+    expect(decodeJsonMessage("{").ok).toBe(false);
+    expect(decodeJsonMessage(JSON.stringify({type: 'gossip'}))).toMatchObject({ok: false, failure: {path: "type"}});
+    expect(errorPath("no path here")).toBe("");
+    expect(decodeBinary(new Uint8Array([0, 1]).buffer)).toMatchObject({ok: false, failure: {path: "byte 1"}});
+
+    const stats = new DecodeStats();
+    stats.add({path: "a", error: "x"});
+    stats.add({path: "a", error: "y"});
+    expect(stats.failures).toBe(2);
+    expect(stats.byPath).toEqual({a: 2});
+    expect(stats.recent[0].error).toBe("y");
+});
+
+it('checks protocol versions', () => {
+    expect(checkCompatibility({major: 1, minor: 0}, {major: 1, minor: 0})).toBe('compatible');
+    expect(checkCompatibility({major: 1, minor: 2}, {major: 1, minor: 0})).toBe('newer');
+    expect(checkCompatibility({major: 1, minor: 0}, {major: 1, minor: 2})).toBe('compatible');
+    expect(checkCompatibility({major: 2, minor: 0}, {major: 1, minor: 0})).toBe('incompatible');
+});
@@ -0,0 +1,114 @@
+import {Result as JsonResult, Ok as JsonOk, Err as JsonErr, JsonDecoder} from "ts.data.json";
+import {
+    MemoryDiff, ServerError, ServerInfo, Snapshot, decMemoryDiff, decServerError, decServerInfo, decSnapshot
+} from "./protocol";
+import {BinaryKind, decodeBinaryMessage} from "./binary";
+
+// Any message the server sends, whatever the encoding.
+export type ServerMessage = {type: 'diff', diff: MemoryDiff}
+    | {type: 'snapshot', snapshot: Snapshot}
+    | {type: 'info', info: ServerInfo}
+    | {type: 'error', error: ServerError};
+
+// A message that could not be decoded: where in the message it failed, and why.
+export type DecodeFailure = {
+    // e.g. "head[0].slot", or "byte 120" for binary messages. Empty if the message itself is the problem.
+    path: string;
+    error: string;
+}
+
+export type DecodeResult = {ok: true, msg: ServerMessage} | {ok: false, failure: DecodeFailure};
+
+// Path of the failing value in a ts.data.json error, which nests the error of each key or index it decodes.
+export const errorPath = (error: string): string => {
+    let path = "";
+    const re = /failed at (key|index) "([^"]*)"/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(error)) !== null) {
+        path += m[1] === 'index' ? `[${m[2]}]` : (path === "" ? m[2] : "." + m[2]);
+    }
+    return path;
+};
+
+// innermost error of a ts.data.json error
+const errorReason = (error: string): string => {
+    const i = error.lastIndexOf("with error: ");
+    return i < 0 ? error : error.slice(i + "with error: ".length);
+};
+
+const decodeWith = <T>(decoder: JsonDecoder.Decoder<T>, data: any, wrap: (v: T) => ServerMessage): DecodeResult => {
+    const res: JsonResult<T> = decoder.decode(data);
+    if (res instanceof JsonOk) {
+        return {ok: true, msg: wrap((res as JsonOk<T>).value)};
+    }
+    const error = (res as JsonErr<T>).error;
+    return {ok: false, failure: {path: errorPath(error), error: errorReason(error)}};
+};
+
+// Decode a JSON message by its type. Diffs may leave out the type.
+// Unknown fields are ignored, so newer servers can add them.
+export const decodeJsonMessage = (text: string): DecodeResult => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch (e) {
+        return {ok: false, failure: {path: "", error: "invalid JSON: " + e.message}};
+    }
+    if (data === null || typeof data !== "object") {
+        return {ok: false, failure: {path: "", error: "not an object"}};
+    }
+    switch (data.type) {
+        case undefined:
+        case 'diff':
+            return decodeWith(decMemoryDiff, data, diff => ({type: 'diff', diff}));
+        case 'snapshot':
+            return decodeWith(decSnapshot, data, snapshot => ({type: 'snapshot', snapshot}));
+        case 'info':
+            return decodeWith(decServerInfo, data, info => ({type: 'info', info}));
+        case 'error':
+            return decodeWith(decServerError, data, error => ({type: 'error', error}));
+        default:
+            return {ok: false, failure: {path: "type", error: `unknown message type ${JSON.stringify(data.type)}`}};
+    }
+};
+
+// Decode a binary message. Optional sections this client does not know are skipped.
+export const decodeBinary = (buf: ArrayBuffer): DecodeResult => {
+    try {
+        const decoded = decodeBinaryMessage(buf);
+        switch (decoded.kind) {
+            case BinaryKind.Diff:
+                return {ok: true, msg: {type: 'diff', diff: decoded.diff}};
+            case BinaryKind.Snapshot:
+                return {ok: true, msg: {type: 'snapshot', snapshot: decoded.snapshot}};
+            default:
+                return {ok: false, failure: {path: "", error: "unknown binary message kind"}};
+        }
+    } catch (e) {
+        const m = /at byte (\d+)/.exec(e.message);
+        return {ok: false, failure: {path: m === null ? "" : "byte " + m[1], error: e.message}};
+    }
+};
+
+// keep this many failures to show
+const MAX_RECENT_FAILURES = 10;
+
+// Counts the messages that could not be decoded, by path.
+export class DecodeStats {
+    failures: number = 0;
+    byPath: Record<string, number> = {};
+    // newest first
+    recent: Array<DecodeFailure & {time: number}> = [];
+
+    add(failure: DecodeFailure, time: number = Date.now()) {
+        this.failures += 1;
+        this.byPath[failure.path] = (this.byPath[failure.path] || 0) + 1;
+        this.recent = [{...failure, time}, ...this.recent].slice(0, MAX_RECENT_FAILURES);
+    }
+
+    reset() {
+        this.failures = 0;
+        this.byPath = {};
+        this.recent = [];
+    }
+}
@@ -0,0 +1,27 @@
+import {StreamMetrics, Timings, formatBytes} from "./metrics";
+
+it('counts messages per second over the last seconds', () => {
+    const metrics = new StreamMetrics();
+    metrics.onMessage(100, 0);
+    metrics.onMessage(50, 1000);
+    metrics.onMessage(50, 4000);
+    expect(metrics.messagesPerSecond(4500)).toBe(3 / 5);
+    expect(metrics.messagesPerSecond(5500)).toBe(2 / 5);
+    expect(metrics.messagesPerSecond(20000)).toBe(0);
+    expect(metrics.messages).toBe(3);
+    expect(metrics.bytes).toBe(200);
+});
+
+it('averages the time spent in each step', () => {
+    const timings = new Timings();
+    timings.record('layoutDag', 0, 10);
+    expect(timings.steps['layoutDag']).toEqual({last: 10, avg: 10, count: 1});
+    timings.record('layoutDag', 10, 30);
+    expect(timings.steps['layoutDag']).toEqual({last: 20, avg: 11, count: 2});
+});
+
+it('formats byte counts', () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(1536)).toBe("1.5 KiB");
+    expect(formatBytes(3 * 1024 * 1024)).toBe("3.0 MiB");
+});
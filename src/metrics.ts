@@ -0,0 +1,87 @@
+// Stream and render metrics, for the debug overlay.
+
+// messages per second are counted over this many ms
+const RATE_WINDOW = 5000;
+
+// Counts the messages of the data stream.
+export class StreamMetrics {
+    messages: number = 0;
+    bytes: number = 0;
+    // diff index of the last received diff, in or out of order
+    lastDiffIndex: number | null = null;
+
+    // receive times of the messages in the rate window, oldest first
+    private recent: Array<number> = [];
+
+    onMessage(bytes: number, now: number = Date.now()) {
+        this.messages += 1;
+        this.bytes += bytes;
+        this.recent.push(now);
+        this.prune(now);
+    }
+
+    onDiff(diffIndex: number) {
+        this.lastDiffIndex = diffIndex;
+    }
+
+    messagesPerSecond(now: number = Date.now()): number {
+        this.prune(now);
+        return this.recent.length / (RATE_WINDOW / 1000);
+    }
+
+    reset() {
+        this.messages = 0;
+        this.bytes = 0;
+        this.lastDiffIndex = null;
+        this.recent = [];
+    }
+
+    private prune(now: number) {
+        let i = 0;
+        while (i < this.recent.length && this.recent[i] <= now - RATE_WINDOW) {
+            i++;
+        }
+        if (i > 0) {
+            this.recent = this.recent.slice(i);
+        }
+    }
+}
+
+export type Timing = {
+    // ms of the last run
+    last: number;
+    // exponential moving average of the runs, in ms
+    avg: number;
+    count: number;
+}
+
+// weight of a new run in the average
+const TIMING_SMOOTHING = 0.1;
+
+// Time spent in named steps, like the world updates.
+export class Timings {
+    steps: Record<string, Timing> = {};
+
+    // record a step that started at the given performance.now() time, and ended now
+    record(name: string, start: number, end: number = performance.now()) {
+        const ms = end - start;
+        const prev = this.steps[name];
+        this.steps[name] = prev === undefined
+            ? {last: ms, avg: ms, count: 1}
+            : {last: ms, avg: prev.avg + (ms - prev.avg) * TIMING_SMOOTHING, count: prev.count + 1};
+    }
+
+    reset() {
+        this.steps = {};
+    }
+}
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) {
+        return bytes + " B";
+    }
+    if (bytes < 1024 * 1024) {
+        return (bytes / 1024).toFixed(1) + " KiB";
+    }
+    return (bytes / (1024 * 1024)).toFixed(1) + " MiB";
+};
@@ -0,0 +1,48 @@
+import {Network, defaultNetworks, loadNetworks, resolveNetwork, saveNetworks} from "./networks";
+
+const networks: Array<Network> = [
+    {name: "local", endpoint: "ws://localhost:4000/ws"},
+    {name: "testnet", endpoint: "wss://testnet.example/ws"},
+];
+
+beforeEach(() => window.localStorage.clear());
+
+it('resolves the route, then net, sim and ws params, then the first network', () => {
+    const all = "?net=local&sim=8&ws=ws://adhoc/ws";
+    expect(resolveNetwork(networks, "testnet", all)).toEqual(networks[1]);
+    expect(resolveNetwork(networks, undefined, "?net=testnet&sim=8&ws=ws://adhoc/ws")).toEqual(networks[1]);
+    expect(resolveNetwork(networks, undefined, "?sim=8&ws=ws://adhoc/ws"))
+        .toEqual({name: "simulator", endpoint: "sim:8"});
+    expect(resolveNetwork(networks, undefined, "?ws=ws://adhoc/ws"))
+        .toEqual({name: "ws://adhoc/ws", endpoint: "ws://adhoc/ws"});
+    expect(resolveNetwork(networks, undefined, "")).toEqual(networks[0]);
+    expect(resolveNetwork([], undefined, "")).toBeNull();
+});
+
+it('does not fall back when the named network is unknown', () => {
+    expect(resolveNetwork(networks, "mainnet", "?sim=8")).toBeNull();
+    expect(resolveNetwork(networks, undefined, "?net=mainnet&ws=ws://adhoc/ws")).toBeNull();
+});
+
+it('saves and loads the networks, and ignores invalid ones', () => {
+    expect(loadNetworks()).toEqual(defaultNetworks);
+    saveNetworks(networks);
+    expect(loadNetworks()).toEqual(networks);
+
+    window.localStorage.setItem("eth2wtf.networks", JSON.stringify([networks[1], {name: "broken"}, null]));
+    expect(loadNetworks()).toEqual([networks[1]]);
+    window.localStorage.setItem("eth2wtf.networks", "not json");
+    expect(loadNetworks()).toEqual(defaultNetworks);
+});
+
+it('keeps working when the networks cannot be saved', () => {
+    const setItem = jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error("quota exceeded");
+    });
+    try {
+        expect(() => saveNetworks(networks)).not.toThrow();
+    } finally {
+        setItem.mockRestore();
+    }
+    expect(loadNetworks()).toEqual(defaultNetworks);
+});
@@ -0,0 +1,51 @@
+import {SIMULATOR_ENDPOINT, SIMULATOR_PARAM} from "./simulator";
+import {loadSetting, saveSetting} from "./settings";
+
+export type Network = {
+    name: string;
+    // websocket endpoint of the eth2wtf server for this network
+    endpoint: string;
+}
+
+export const defaultNetworks: Array<Network> = [
+    {name: "local", endpoint: "ws://localhost:4000/ws"},
+];
+
+const NETWORKS_KEY = "networks";
+
+export const loadNetworks = (): Array<Network> => {
+    const networks = loadSetting<unknown>(NETWORKS_KEY, null);
+    if (Array.isArray(networks) && networks.length > 0) {
+        return networks.filter(n => n && typeof n.name === "string" && typeof n.endpoint === "string");
+    }
+    return defaultNetworks;
+};
+
+export const saveNetworks = (networks: Array<Network>) => {
+    saveSetting(NETWORKS_KEY, networks);
+};
+
+// Pick the network to connect to. In order of priority:
+// the network name from the route, the "net" query param, the "sim" query param (local simulator),
+// the "ws" query param (ad-hoc endpoint), and finally the first saved network.
+export const resolveNetwork = (networks: Array<Network>, routeName: string | undefined, search: string): Network | null => {
+    const params = new URLSearchParams(search);
+    const name = routeName || params.get("net");
+    if (name) {
+        const byName = networks.find(n => n.name === name);
+        if (byName) {
+            return byName;
+        }
+        console.log("unknown network: ", name);
+        return null;
+    }
+    const sim = params.get(SIMULATOR_PARAM);
+    if (sim !== null) {
+        return {name: "simulator", endpoint: SIMULATOR_ENDPOINT + sim};
+    }
+    const endpoint = params.get("ws");
+    if (endpoint) {
+        return {name: endpoint, endpoint};
+    }
+    return networks.length > 0 ? networks[0] : null;
+};
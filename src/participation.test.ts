@@ -0,0 +1,78 @@
+import {HeadSummary, MemoryDiff} from "./protocol";
+import {ChainStore} from "./store";
+import {participationMatrix} from "./participation";
+import {CanonicalView} from "./votes";
+
+const headSummary = (headBlock: number, slot: number, validators: number): HeadSummary => ({
+    headBlock,
+    slot,
+    proposerIndex: 0,
+    validatorCounts: {
+        total: validators, active: validators, slashed: 0, eligible: validators,
+        nonEligible: 0, exiting: 0, withdrawable: 0,
+    },
+    totalStaked: validators * 32e9,
+    avgBalance: 32e9,
+    depositIndex: validators,
+    eth1Data: {depositRoot: "0x00", depositCount: validators, blockHash: "0x00"},
+    previousFFG: {source: 0, target: 0, head: 0},
+    currentFFG: {source: 0, target: 0, head: 0},
+});
+
+// 0 <- 1 <- 2 (head)
+//   <- 3
+const diff: MemoryDiff = {
+    diffIndex: 0,
+    previous: {head: 0, finalized: 0, blocks: 0, attestations: 0, latestVotes: 0},
+    head: [headSummary(2, 2, 4)],
+    finalized: [0],
+    blocks: [
+        {selfPtr: 0, htr: "0x00", slot: 0, parent: 100},
+        {selfPtr: 1, htr: "0x01", slot: 1, parent: 0},
+        {selfPtr: 2, htr: "0x02", slot: 2, parent: 1},
+        {selfPtr: 3, htr: "0x03", slot: 2, parent: 0},
+    ],
+    attestations: [
+        {selfPtr: 0, slot: 1, commIndex: 0, head: 1, target: 0, source: 0},
+        {selfPtr: 1, slot: 2, commIndex: 0, head: 2, target: 0, source: 0},
+        // wrong head
+        {selfPtr: 2, slot: 2, commIndex: 1, head: 3, target: 0, source: 0},
+        // wrong target
+        {selfPtr: 3, slot: 2, commIndex: 1, head: 2, target: 1, source: 0},
+        // source on the fork
+        {selfPtr: 4, slot: 2, commIndex: 0, head: 2, target: 0, source: 3},
+    ],
+    latestVotes: [
+        {validatorIndex: 0, attestationPtr: 1},
+        {validatorIndex: 1, attestationPtr: 1},
+        {validatorIndex: 2, attestationPtr: 2},
+    ],
+};
+
+it('classifies votes against the canonical chain', () => {
+    const store = new ChainStore();
+    store.applyDiff(diff);
+    const view = new CanonicalView(store);
+    const classify = (ptr: number) => view.classify(store, store.getAttestation(ptr)!);
+    expect(classify(1)).toEqual({head: 'correct', target: 'correct', source: 'correct'});
+    expect(classify(2)).toEqual({head: 'incorrect', target: 'correct', source: 'correct'});
+    expect(classify(3)).toEqual({head: 'correct', target: 'incorrect', source: 'correct'});
+    expect(classify(4)).toEqual({head: 'correct', target: 'correct', source: 'incorrect'});
+    // the chain does not reach back before its oldest block
+    expect(view.blockAt(-1)).toBeNull();
+});
+
+it('groups attestations by slot and committee', () => {
+    const store = new ChainStore();
+    store.applyDiff(diff);
+    const m = participationMatrix(store, 2);
+    expect(m.slots).toEqual([2, 1]);
+    expect(m.committees).toBe(2);
+    expect(m.cells[2][0].attestations).toEqual([1, 4]);
+    expect(m.cells[2][0].voters).toBe(2);
+    expect(m.cells[2][0].source).toEqual({correct: 1, incorrect: 1, unknown: 0});
+    expect(m.cells[2][1].head).toEqual({correct: 1, incorrect: 1, unknown: 0});
+    expect(m.cells[2][1].target).toEqual({correct: 1, incorrect: 1, unknown: 0});
+    expect(m.cells[1][0].attestations).toEqual([0]);
+    expect(m.cells[1][1]).toBeUndefined();
+});
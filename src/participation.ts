@@ -0,0 +1,64 @@
+import {AttestationPtr, CommitteeIndex, Slot} from "./protocol";
+import {ChainStore} from "./store";
+import {CanonicalView, VoteCorrectness} from "./votes";
+
+export type VoteTally = Record<VoteCorrectness, number>;
+
+const emptyTally = (): VoteTally => ({correct: 0, incorrect: 0, unknown: 0});
+
+export type ParticipationCell = {
+    slot: Slot;
+    commIndex: CommitteeIndex;
+    attestations: Array<AttestationPtr>;
+    // validators that have one of the attestations as latest vote
+    voters: number;
+    head: VoteTally;
+    target: VoteTally;
+    source: VoteTally;
+}
+
+export type ParticipationMatrix = {
+    // newest first
+    slots: Array<Slot>;
+    // committees per slot: the highest committee index seen, plus one
+    committees: number;
+    cells: Record<Slot, Record<CommitteeIndex, ParticipationCell>>;
+}
+
+// Attestations of the latest slots, by slot and committee, with their votes checked against the canonical chain.
+export const participationMatrix = (store: ChainStore, maxSlots: number): ParticipationMatrix => {
+    const view = new CanonicalView(store);
+    const head = store.latestHead();
+    const cells: Record<Slot, Record<CommitteeIndex, ParticipationCell>> = {};
+    const slots: Array<Slot> = [];
+    if (head === null) {
+        return {slots, committees: 0, cells};
+    }
+    for (let slot = head.slot; slot >= 0 && slots.length < maxSlots; slot--) {
+        slots.push(slot);
+        cells[slot] = {};
+    }
+    let committees = 0;
+    for (let att of Object.values(store.attestations)) {
+        const row = cells[att.slot];
+        if (!row) {
+            continue;
+        }
+        let cell = row[att.commIndex];
+        if (!cell) {
+            cell = {
+                slot: att.slot, commIndex: att.commIndex, attestations: [], voters: 0,
+                head: emptyTally(), target: emptyTally(), source: emptyTally(),
+            };
+            row[att.commIndex] = cell;
+        }
+        cell.attestations.push(att.selfPtr);
+        cell.voters += store.votersOf(att.selfPtr).length;
+        const c = view.classify(store, att);
+        cell.head[c.head] += 1;
+        cell.target[c.target] += 1;
+        cell.source[c.source] += 1;
+        committees = Math.max(committees, att.commIndex + 1);
+    }
+    return {slots, committees, cells};
+};
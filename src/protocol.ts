@@ -0,0 +1,335 @@
+import {JsonDecoder} from "ts.data.json";
+
+export type BlockPtr = number;
+export type AttestationPtr = number;
+export type LatestVotesPtr = number;
+export type Gwei = number;
+export type Slot = number;
+export type Epoch = number;
+export type ValidatorIndex = number;
+export type DepositIndex = number;
+export type CommitteeIndex = number;
+export type Root = string;
+
+export const decBlockPtr = JsonDecoder.number;
+export const decAttestationPtr = JsonDecoder.number;
+export const decLatestVotesPtr = JsonDecoder.number;
+export const decGwei = JsonDecoder.number;
+export const decSlot = JsonDecoder.number;
+export const decValidatorIndex = JsonDecoder.number;
+export const decDepositIndex = JsonDecoder.number;
+export const decCommitteeIndex = JsonDecoder.number;
+export const decRoot = JsonDecoder.string;
+
+export type FFG = {
+    source: Gwei;
+    target: Gwei;
+    head: Gwei;
+}
+
+export const decFFG = JsonDecoder.object<FFG>({
+    source: decGwei,
+    target: decGwei,
+    head: decGwei,
+}, 'ffg');
+
+export type ValidatorCounts = {
+    total: number;
+    active: number;
+    slashed: number;
+    eligible: number;
+    nonEligible: number;
+    exiting: number;
+    withdrawable: number;
+}
+
+export const decValidatorCounts = JsonDecoder.object<ValidatorCounts>({
+    total: JsonDecoder.number,
+    active: JsonDecoder.number,
+    slashed: JsonDecoder.number,
+    eligible: JsonDecoder.number,
+    nonEligible: JsonDecoder.number,
+    exiting: JsonDecoder.number,
+    withdrawable: JsonDecoder.number,
+}, 'validator_counts');
+
+export type Eth1Data = {
+    depositRoot: Root;
+    depositCount: DepositIndex;
+    blockHash: Root;
+}
+
+export const decEth1Data = JsonDecoder.object<Eth1Data>({
+    depositRoot: decRoot,
+    depositCount: decDepositIndex,
+    blockHash: decRoot,
+}, 'eth1_data');
+
+export type HeadSummary = {
+    headBlock: BlockPtr;
+    slot: Slot;
+    proposerIndex: ValidatorIndex;
+    validatorCounts: ValidatorCounts;
+    totalStaked: Gwei;
+    avgBalance: Gwei;
+    depositIndex: DepositIndex;
+    eth1Data: Eth1Data;
+    previousFFG: FFG;
+    currentFFG: FFG;
+}
+
+export const decHeadSummary = JsonDecoder.object<HeadSummary>({
+    headBlock: decBlockPtr,
+    slot: decSlot,
+    proposerIndex: decValidatorIndex,
+    validatorCounts: decValidatorCounts,
+    totalStaked: decGwei,
+    avgBalance: decGwei,
+    depositIndex: decDepositIndex,
+    eth1Data: decEth1Data,
+    previousFFG: decFFG,
+    currentFFG: decFFG,
+}, 'head_summary');
+
+export type BlockSummary = {
+    selfPtr: BlockPtr;
+    htr: Root;
+    slot: Slot;
+    parent: BlockPtr;
+}
+
+export const decBlockSummary = JsonDecoder.object<BlockSummary>({
+    selfPtr: decBlockPtr,
+    htr: decRoot,
+    slot: decSlot,
+    parent: decBlockPtr,
+}, 'block_summary');
+
+export type AttestationSummary = {
+    selfPtr: AttestationPtr;
+    slot: Slot;
+    commIndex: CommitteeIndex;
+    head: BlockPtr;
+    target: BlockPtr;
+    source: BlockPtr;
+}
+
+export const decAttestationSummary = JsonDecoder.object<AttestationSummary>({
+    selfPtr: decAttestationPtr,
+    slot: decSlot,
+    commIndex: decCommitteeIndex,
+    head: decBlockPtr,
+    target: decBlockPtr,
+    source: decBlockPtr,
+}, 'attestation_summary');
+
+export type VoteSummary = {
+    validatorIndex: ValidatorIndex;
+    attestationPtr: AttestationPtr;
+}
+
+export const decVoteSummary = JsonDecoder.object<VoteSummary>({
+    validatorIndex: decValidatorIndex,
+    attestationPtr: decAttestationPtr,
+}, 'vote_summary');
+
+export type ValidatorStatus = 'pending' | 'active' | 'slashed' | 'exiting' | 'withdrawable';
+
+// in order of their binary encoding
+export const validatorStatuses: Array<ValidatorStatus> = ['pending', 'active', 'slashed', 'exiting', 'withdrawable'];
+
+export const decValidatorStatus = JsonDecoder.oneOf<ValidatorStatus>(
+    validatorStatuses.map(s => JsonDecoder.isExactly(s)), 'validator_status');
+
+export type ValidatorSummary = {
+    validatorIndex: ValidatorIndex;
+    status: ValidatorStatus;
+    effectiveBalance: Gwei;
+    balance: Gwei;
+}
+
+export const decValidatorSummary = JsonDecoder.object<ValidatorSummary>({
+    validatorIndex: decValidatorIndex,
+    status: decValidatorStatus,
+    effectiveBalance: decGwei,
+    balance: decGwei,
+}, 'validator_summary');
+
+export type MemoryState = {
+    // ptrs rotate around buffer
+    head: BlockPtr;       // index modulo HeadsMemory
+    finalized: BlockPtr;       // index modulo FinalizedMemory
+    blocks: BlockPtr;       // index modulo BlocksMemory
+    attestations: AttestationPtr; // index modulo AttestationsMemory
+    latestVotes: LatestVotesPtr; // index modulo LatestVotesMemory
+}
+
+export const decMemoryState = JsonDecoder.object<MemoryState>({
+    head: decBlockPtr,
+    finalized: decBlockPtr,
+    blocks: decBlockPtr,
+    attestations: decAttestationPtr,
+    latestVotes: decLatestVotesPtr,
+}, 'memory_state');
+
+// Sizes of the server ring buffers that the MemoryState pointers rotate around.
+// Must match the server configuration; the client keeps at most this much history.
+export type MemoryLimits = {
+    heads: number;
+    finalized: number;
+    blocks: number;
+    attestations: number;
+    latestVotes: number;
+}
+
+export const defaultMemoryLimits: MemoryLimits = {
+    heads: 64,
+    finalized: 16,
+    blocks: 1024,
+    attestations: 4096,
+    latestVotes: 65536,
+};
+
+export type MemoryDiff = {
+    diffIndex: number;
+    previous: MemoryState;
+    head: Array<HeadSummary>;
+    finalized: Array<BlockPtr>;
+    blocks: Array<BlockSummary>;
+    attestations: Array<AttestationSummary>;
+    latestVotes: Array<VoteSummary>;
+    // optional: status and balance of the validators that changed. Not every server sends these.
+    validators?: Array<ValidatorSummary>;
+}
+
+export const decMemoryDiff = JsonDecoder.object<MemoryDiff>({
+    diffIndex: JsonDecoder.number,
+    previous: decMemoryState,
+    head: JsonDecoder.array<HeadSummary>(decHeadSummary, 'head'),
+    finalized:  JsonDecoder.array<BlockPtr>(decBlockPtr, 'finalized'),
+    blocks:  JsonDecoder.array<BlockSummary>(decBlockSummary, 'blocks'),
+    attestations:  JsonDecoder.array<AttestationSummary>(decAttestationSummary, 'attestations'),
+    latestVotes: JsonDecoder.array<VoteSummary>(decVoteSummary, 'latest_votes'),
+    validators: JsonDecoder.optional(JsonDecoder.array<ValidatorSummary>(decValidatorSummary, 'validators')),
+}, 'memory_diff');
+
+// Full copy of the server memory, sent in response to a resync request.
+// The snapshot is consistent with all diffs up to and including diffIndex.
+export type Snapshot = {
+    type: 'snapshot';
+    diffIndex: number;
+    state: MemoryState;
+    head: Array<HeadSummary>;
+    finalized: Array<BlockPtr>;
+    blocks: Array<BlockSummary>;
+    attestations: Array<AttestationSummary>;
+    latestVotes: Array<VoteSummary>;
+    // optional: status and balance of all validators
+    validators?: Array<ValidatorSummary>;
+}
+
+export const decSnapshot = JsonDecoder.object<Snapshot>({
+    type: JsonDecoder.isExactly<'snapshot'>('snapshot'),
+    diffIndex: JsonDecoder.number,
+    state: decMemoryState,
+    head: JsonDecoder.array<HeadSummary>(decHeadSummary, 'head'),
+    finalized:  JsonDecoder.array<BlockPtr>(decBlockPtr, 'finalized'),
+    blocks:  JsonDecoder.array<BlockSummary>(decBlockSummary, 'blocks'),
+    attestations:  JsonDecoder.array<AttestationSummary>(decAttestationSummary, 'attestations'),
+    latestVotes: JsonDecoder.array<VoteSummary>(decVoteSummary, 'latest_votes'),
+    validators: JsonDecoder.optional(JsonDecoder.array<ValidatorSummary>(decValidatorSummary, 'validators')),
+}, 'snapshot');
+
+// Version of the message format. Versions with the same major version are compatible:
+// a newer minor version only adds optional fields and sections, which older clients ignore.
+export type ProtocolVersion = {
+    major: number;
+    minor: number;
+}
+
+export const PROTOCOL_VERSION: ProtocolVersion = {major: 1, minor: 0};
+
+export const decProtocolVersion = JsonDecoder.object<ProtocolVersion>({
+    major: JsonDecoder.number,
+    minor: JsonDecoder.number,
+}, 'protocol_version');
+
+export type Compatibility = 'compatible' | 'newer' | 'incompatible';
+
+// 'newer' if the server has a newer minor version: it works, but new fields and sections are ignored.
+export const checkCompatibility = (server: ProtocolVersion, client: ProtocolVersion = PROTOCOL_VERSION): Compatibility => {
+    if (server.major !== client.major) {
+        return 'incompatible';
+    }
+    return server.minor > client.minor ? 'newer' : 'compatible';
+};
+
+// Sent by the server when a client connects, before any diff.
+export type ServerInfo = {
+    type: 'info';
+    protocol: ProtocolVersion;
+    // name and version of the server software, if it says
+    server?: string;
+    // ring buffer sizes of the server memory, if it says
+    limits?: MemoryLimits;
+}
+
+export const decMemoryLimits = JsonDecoder.object<MemoryLimits>({
+    heads: JsonDecoder.number,
+    finalized: JsonDecoder.number,
+    blocks: JsonDecoder.number,
+    attestations: JsonDecoder.number,
+    // servers before this limit was sent use the default size
+    latestVotes: JsonDecoder.failover(defaultMemoryLimits.latestVotes, JsonDecoder.number),
+}, 'memory_limits');
+
+export const decServerInfo = JsonDecoder.object<ServerInfo>({
+    type: JsonDecoder.isExactly<'info'>('info'),
+    protocol: decProtocolVersion,
+    server: JsonDecoder.optional(JsonDecoder.string),
+    limits: JsonDecoder.optional(decMemoryLimits),
+}, 'server_info');
+
+// Sent by the server when it cannot handle a request, e.g. a resync of diffs it no longer has.
+export type ServerError = {
+    type: 'error';
+    message: string;
+}
+
+export const decServerError = JsonDecoder.object<ServerError>({
+    type: JsonDecoder.isExactly<'error'>('error'),
+    message: JsonDecoder.string,
+}, 'server_error');
+
+// Client -> server request to fill a gap in the diff stream.
+// The server either re-sends the diffs from..to (inclusive), or answers with a Snapshot.
+// A null range asks for a full snapshot.
+export type ResyncRequest = {
+    type: 'resync';
+    from: number | null;
+    to: number | null;
+}
+
+export const encResyncRequest = (req: ResyncRequest): string => JSON.stringify(req);
+
+// Converts a snapshot into a diff that rebuilds the full state from scratch.
+export const snapshotToDiff = (snapshot: Snapshot): MemoryDiff => ({
+    diffIndex: snapshot.diffIndex,
+    previous: snapshot.state,
+    head: snapshot.head,
+    finalized: snapshot.finalized,
+    blocks: snapshot.blocks,
+    attestations: snapshot.attestations,
+    latestVotes: snapshot.latestVotes,
+    validators: snapshot.validators,
+});
+
+// Pointers of the server memory after the diff: each pointer moved past the items the diff added,
+// and wrapped around the ring buffer of its limit.
+export const memoryStateAfter = (diff: MemoryDiff, limits: MemoryLimits): MemoryState => ({
+    head: (diff.previous.head + diff.head.length) % limits.heads,
+    finalized: (diff.previous.finalized + diff.finalized.length) % limits.finalized,
+    blocks: (diff.previous.blocks + diff.blocks.length) % limits.blocks,
+    attestations: (diff.previous.attestations + diff.attestations.length) % limits.attestations,
+    latestVotes: (diff.previous.latestVotes + diff.latestVotes.length) % limits.latestVotes,
+});
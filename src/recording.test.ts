@@ -0,0 +1,152 @@
+import {BlockSummary, MemoryDiff, Snapshot} from "./protocol";
+import {PlaybackTarget, Player, RecordedMessage, Recorder, parseRecording} from "./recording";
+
+const block = (selfPtr: number, slot: number, parent: number): BlockSummary => ({
+    selfPtr, slot, parent, htr: "0x" + selfPtr,
+});
+
+const diff = (diffIndex: number, blocks: Array<BlockSummary>): MemoryDiff => ({
+    diffIndex,
+    previous: {head: 0, finalized: 0, blocks: 0, attestations: 0, latestVotes: 0},
+    head: [],
+    finalized: [],
+    blocks,
+    attestations: [],
+    latestVotes: [],
+});
+
+const snapshot = (diffIndex: number, blocks: Array<BlockSummary>): Snapshot => ({
+    type: 'snapshot',
+    diffIndex,
+    state: {head: 0, finalized: 0, blocks: blocks.length, attestations: 0, latestVotes: 0},
+    head: [],
+    finalized: [],
+    blocks,
+    attestations: [],
+    latestVotes: [],
+});
+
+// keeps the diff indices it was given, a reset starts a new list
+class LogTarget implements PlaybackTarget {
+    applied: Array<number> = [];
+    resets: number = 0;
+    batches: number = 0;
+
+    reset() {
+        this.applied = [];
+        this.resets += 1;
+    }
+
+    apply(msg: RecordedMessage) {
+        this.applied.push(msg.kind === 'diff' ? msg.diff.diffIndex : msg.snapshot.diffIndex);
+    }
+
+    batch(fn: () => void) {
+        this.batches += 1;
+        fn();
+    }
+}
+
+const recorded = (): Array<RecordedMessage> => [
+    {t: 1000, kind: 'snapshot', snapshot: snapshot(0, [block(0, 1, 9)])},
+    {t: 2000, kind: 'diff', diff: diff(1, [block(1, 2, 0)])},
+    {t: 4000, kind: 'diff', diff: diff(2, [block(2, 3, 1)])},
+    {t: 5000, kind: 'diff', diff: diff(3, [])},
+];
+
+it('records only while recording, and parses its own output back', () => {
+    const rec = new Recorder();
+    rec.recordDiff(diff(0, []), 500);
+    rec.start();
+    for (let e of recorded()) {
+        if (e.kind === 'diff') rec.recordDiff(e.diff, e.t);
+        else rec.recordSnapshot(e.snapshot, e.t);
+    }
+    rec.stop();
+    rec.recordDiff(diff(4, []), 6000);
+    expect(rec.entries).toEqual(recorded());
+
+    const text = rec.toNDJSON();
+    expect(text.split("\n").filter(l => l !== "").length).toBe(4);
+    expect(parseRecording(text)).toEqual(recorded());
+    // starting again drops the previous recording
+    rec.start();
+    expect(rec.entries).toEqual([]);
+});
+
+it('names the line of a malformed entry', () => {
+    const lines = recorded().map(e => JSON.stringify(e));
+    const withLine = (i: number, line: string) => {
+        const copy = lines.slice();
+        copy[i] = line;
+        return copy.join("\n");
+    };
+    // blank lines are skipped, but still counted
+    expect(parseRecording("\n" + lines.join("\n\n") + "\n").length).toBe(4);
+    expect(() => parseRecording(withLine(1, "{\"t\": 2000, \"kind\": "))).toThrow(/^line 2: invalid JSON/);
+    expect(() => parseRecording(withLine(2, JSON.stringify({kind: 'diff', diff: diff(2, [])}))))
+        .toThrow("line 3: missing timestamp");
+    expect(() => parseRecording(withLine(3, JSON.stringify({t: 5000, kind: 'diff', diff: {diffIndex: 3}}))))
+        .toThrow(/^line 4: /);
+    expect(() => parseRecording(withLine(0, JSON.stringify({t: 1000, kind: 'status'}))))
+        .toThrow("line 1: unknown message kind status");
+});
+
+it('seeks by replaying from the start when going back', () => {
+    const target = new LogTarget();
+    let changes = 0;
+    const player = new Player(recorded(), target, () => changes++);
+    expect(player.currentTime()).toBe(1000);
+    expect(player.endTime()).toBe(5000);
+
+    player.seek(3);
+    expect(target.applied).toEqual([0, 1, 2]);
+    expect(player.currentTime()).toBe(4000);
+    // forward continues where it was
+    player.seek(10);
+    expect(target.applied).toEqual([0, 1, 2, 3]);
+    expect(target.resets).toBe(0);
+    expect(player.position).toBe(4);
+    // back starts over
+    player.seekTime(2500);
+    expect(target.resets).toBe(1);
+    expect(target.applied).toEqual([0, 1]);
+    expect(player.currentTime()).toBe(2000);
+    player.seek(-1);
+    expect(target.applied).toEqual([]);
+    expect(player.position).toBe(0);
+    expect(target.batches).toBe(4);
+    expect(changes).toBe(4);
+});
+
+it('plays with the recorded timing, scaled by the speed', () => {
+    jest.useFakeTimers();
+    try {
+        const target = new LogTarget();
+        const player = new Player(recorded(), target, () => {});
+        player.setSpeed(2);
+        player.play();
+        jest.advanceTimersByTime(0);
+        expect(target.applied).toEqual([0]);
+        // 1s recorded gap at double speed
+        jest.advanceTimersByTime(499);
+        expect(target.applied).toEqual([0]);
+        jest.advanceTimersByTime(1);
+        expect(target.applied).toEqual([0, 1]);
+        player.pause();
+        jest.advanceTimersByTime(10000);
+        expect(target.applied).toEqual([0, 1]);
+        player.play();
+        jest.advanceTimersByTime(1500);
+        expect(target.applied).toEqual([0, 1, 2, 3]);
+        expect(player.playing).toBe(false);
+        // playing again after the end starts over
+        player.play();
+        jest.advanceTimersByTime(0);
+        expect(target.resets).toBe(1);
+        expect(target.applied).toEqual([0]);
+        player.stop();
+    } finally {
+        jest.useRealTimers();
+    }
+});
@@ -0,0 +1,220 @@
+import {Result as JsonResult, Ok as JsonOk, Err as JsonErr} from "ts.data.json";
+import {MemoryDiff, Snapshot, decMemoryDiff, decSnapshot} from "./protocol";
+
+// A received message, with the time (ms since unix epoch) it was received at.
+export type RecordedMessage = {t: number, kind: 'diff', diff: MemoryDiff}
+    | {t: number, kind: 'snapshot', snapshot: Snapshot};
+
+// Keeps every received diff and snapshot, to export as NDJSON: one recorded message per line.
+export class Recorder {
+    recording: boolean = false;
+    entries: Array<RecordedMessage> = [];
+
+    start() {
+        this.entries = [];
+        this.recording = true;
+    }
+
+    stop() {
+        this.recording = false;
+    }
+
+    recordDiff(diff: MemoryDiff, t: number = Date.now()) {
+        if (this.recording) {
+            this.entries.push({t, kind: 'diff', diff});
+        }
+    }
+
+    recordSnapshot(snapshot: Snapshot, t: number = Date.now()) {
+        if (this.recording) {
+            this.entries.push({t, kind: 'snapshot', snapshot});
+        }
+    }
+
+    toNDJSON(): string {
+        return this.entries.map(e => JSON.stringify(e)).join("\n") + "\n";
+    }
+
+    // let the browser save the recording as a file
+    download(filename: string = "eth2wtf-" + new Date().toISOString() + ".ndjson") {
+        const blob = new Blob([this.toNDJSON()], {type: "application/x-ndjson"});
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = filename;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    }
+}
+
+// Parses an NDJSON recording. Throws an error naming the line of the first invalid entry.
+export const parseRecording = (text: string): Array<RecordedMessage> => {
+    const out: Array<RecordedMessage> = [];
+    const lines = text.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i].trim();
+        if (line === "") {
+            continue;
+        }
+        let entry: any;
+        try {
+            entry = JSON.parse(line);
+        } catch (e) {
+            throw new Error(`line ${i + 1}: invalid JSON: ${e.message}`);
+        }
+        if (typeof entry.t !== "number") {
+            throw new Error(`line ${i + 1}: missing timestamp`);
+        }
+        if (entry.kind === 'diff') {
+            const res: JsonResult<MemoryDiff> = decMemoryDiff.decode(entry.diff);
+            if (!(res instanceof JsonOk)) {
+                throw new Error(`line ${i + 1}: ${(res as JsonErr<MemoryDiff>).error}`);
+            }
+            out.push({t: entry.t, kind: 'diff', diff: (res as JsonOk<MemoryDiff>).value});
+        } else if (entry.kind === 'snapshot') {
+            const res: JsonResult<Snapshot> = decSnapshot.decode(entry.snapshot);
+            if (!(res instanceof JsonOk)) {
+                throw new Error(`line ${i + 1}: ${(res as JsonErr<Snapshot>).error}`);
+            }
+            out.push({t: entry.t, kind: 'snapshot', snapshot: (res as JsonOk<Snapshot>).value});
+        } else {
+            throw new Error(`line ${i + 1}: unknown message kind ${entry.kind}`);
+        }
+    }
+    return out;
+};
+
+export interface PlaybackTarget {
+    // drop all state, to replay from the start
+    reset(): void;
+    apply(msg: RecordedMessage): void;
+    // apply many messages at once, e.g. when seeking, without rendering every step.
+    batch(fn: () => void): void;
+}
+
+// longest real-time pause between two messages during playback, before the speed factor.
+const MAX_PLAYBACK_GAP = 10000;
+
+// Plays a recording into a target, with the original timing scaled by the speed.
+export class Player {
+    entries: Array<RecordedMessage>;
+    target: PlaybackTarget;
+    onChange: () => void;
+
+    // index of the next entry to play
+    position: number = 0;
+    playing: boolean = false;
+    speed: number = 1;
+
+    private timer: undefined | number;
+
+    constructor(entries: Array<RecordedMessage>, target: PlaybackTarget, onChange: () => void) {
+        this.entries = entries;
+        this.target = target;
+        this.onChange = onChange;
+    }
+
+    // recorded time of the last played entry, or of the start when nothing was played yet
+    currentTime(): number {
+        if (this.entries.length === 0) {
+            return 0;
+        }
+        return this.entries[Math.max(0, this.position - 1)].t;
+    }
+
+    startTime(): number {
+        return this.entries.length === 0 ? 0 : this.entries[0].t;
+    }
+
+    endTime(): number {
+        return this.entries.length === 0 ? 0 : this.entries[this.entries.length - 1].t;
+    }
+
+    play() {
+        if (this.playing) {
+            return;
+        }
+        if (this.position >= this.entries.length) {
+            this.seek(0);
+        }
+        this.playing = true;
+        this.scheduleNext();
+        this.onChange();
+    }
+
+    pause() {
+        this.playing = false;
+        this.clearTimer();
+        this.onChange();
+    }
+
+    setSpeed(speed: number) {
+        this.speed = speed;
+        if (this.playing) {
+            this.clearTimer();
+            this.scheduleNext();
+        }
+        this.onChange();
+    }
+
+    // jump to the given entry index: replay everything before it at once.
+    seek(position: number) {
+        this.clearTimer();
+        const target = Math.max(0, Math.min(this.entries.length, position));
+        this.target.batch(() => {
+            let from = this.position;
+            if (target < this.position) {
+                this.target.reset();
+                from = 0;
+            }
+            for (let i = from; i < target; i++) {
+                this.target.apply(this.entries[i]);
+            }
+        });
+        this.position = target;
+        if (this.playing) {
+            this.scheduleNext();
+        }
+        this.onChange();
+    }
+
+    // seek to the first entry recorded at or after the time
+    seekTime(t: number) {
+        let i = 0;
+        while (i < this.entries.length && this.entries[i].t < t) {
+            i++;
+        }
+        this.seek(i);
+    }
+
+    stop() {
+        this.playing = false;
+        this.clearTimer();
+    }
+
+    private clearTimer() {
+        if (this.timer !== undefined) {
+            window.clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    private scheduleNext() {
+        if (this.position >= this.entries.length) {
+            this.playing = false;
+            this.onChange();
+            return;
+        }
+        const gap = this.position === 0 ? 0 : this.entries[this.position].t - this.entries[this.position - 1].t;
+        const delay = Math.min(gap, MAX_PLAYBACK_GAP) / this.speed;
+        this.timer = window.setTimeout(() => {
+            this.timer = undefined;
+            this.target.apply(this.entries[this.position]);
+            this.position += 1;
+            this.onChange();
+            this.scheduleNext();
+        }, delay);
+    }
+}
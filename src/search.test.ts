@@ -0,0 +1,93 @@
+import {HeadSummary, MemoryDiff} from "./protocol";
+import {ChainStore} from "./store";
+import {parseQuery, search} from "./search";
+
+const headSummary = (headBlock: number, slot: number, validators: number): HeadSummary => ({
+    headBlock,
+    slot,
+    proposerIndex: 0,
+    validatorCounts: {
+        total: validators, active: validators, slashed: 0, eligible: validators,
+        nonEligible: 0, exiting: 0, withdrawable: 0,
+    },
+    totalStaked: validators * 32e9,
+    avgBalance: 32e9,
+    depositIndex: validators,
+    eth1Data: {depositRoot: "0x00", depositCount: validators, blockHash: "0x00"},
+    previousFFG: {source: 0, target: 0, head: 0},
+    currentFFG: {source: 0, target: 0, head: 0},
+});
+
+// 5 <- 6 <- 7 (head), 8 competes with 7
+const diff: MemoryDiff = {
+    diffIndex: 0,
+    previous: {head: 0, finalized: 0, blocks: 0, attestations: 0, latestVotes: 0},
+    head: [headSummary(7, 12, 4)],
+    finalized: [],
+    blocks: [
+        {selfPtr: 5, htr: "0xaa01", slot: 10, parent: 4},
+        {selfPtr: 6, htr: "0xab02", slot: 11, parent: 5},
+        {selfPtr: 7, htr: "0xab03", slot: 12, parent: 6},
+        {selfPtr: 8, htr: "0xcd04", slot: 12, parent: 6},
+    ],
+    attestations: [
+        {selfPtr: 20, slot: 11, commIndex: 0, head: 6, target: 5, source: 5},
+    ],
+    latestVotes: [],
+};
+
+const store = new ChainStore();
+store.applyDiff(diff);
+
+it('parses roots, slots and prefixed numbers', () => {
+    expect(parseQuery("0xAB")).toEqual({kind: 'root', prefix: "ab"});
+    expect(parseQuery("abcdef0123")).toEqual({kind: 'root', prefix: "abcdef0123"});
+    expect(parseQuery(" 42 ")).toEqual({kind: 'slot', slot: 42});
+    expect(parseQuery("v12")).toEqual({kind: 'validator', index: 12});
+    expect(parseQuery("attestation: 3")).toEqual({kind: 'attestation', ptr: 3});
+    expect(parseQuery("b 7")).toEqual({kind: 'block', ptr: 7});
+    expect(parseQuery("foo 1")).toBeNull();
+});
+
+it('finds blocks by root prefix and slot', () => {
+    expect(search(store, "0xab")).toMatchObject({kind: 'found', selection: {kind: 'block', ptr: 7}});
+    expect(search(store, "0xaa")).toMatchObject({kind: 'found', selection: {kind: 'block', ptr: 5}});
+    expect(search(store, "0xff").kind).toBe('missing');
+    // the canonical block of the slot
+    expect(search(store, "12")).toMatchObject({kind: 'found', selection: {kind: 'block', ptr: 7}});
+});
+
+it('tells pruned items from items that did not arrive yet', () => {
+    expect(search(store, "3").kind).toBe('pruned');
+    expect(search(store, "13").kind).toBe('pending');
+    expect(search(store, "a 19").kind).toBe('pruned');
+    expect(search(store, "a 21").kind).toBe('pending');
+    expect(search(store, "a 20")).toMatchObject({kind: 'found', selection: {kind: 'attestation', ptr: 20}});
+    expect(search(store, "v 4").kind).toBe('pending');
+    expect(search(store, "v 3")).toMatchObject({kind: 'found', selection: {kind: 'validator', index: 3}});
+    expect(search(store, "?").kind).toBe('invalid');
+});
+
+it('checks pointers against the memory limits, and reports reused positions as pruned', () => {
+    const limits = {heads: 4, finalized: 4, blocks: 4, attestations: 8, latestVotes: 1024};
+    const small = new ChainStore(limits);
+    small.applyDiff({...diff, head: [headSummary(3, 13, 4)], blocks: [
+        {selfPtr: 1, htr: "0x01", slot: 10, parent: 0},
+        {selfPtr: 2, htr: "0x02", slot: 11, parent: 1},
+        {selfPtr: 3, htr: "0x03", slot: 12, parent: 2},
+    ], attestations: [{selfPtr: 5, slot: 11, commIndex: 0, head: 2, target: 1, source: 1}]});
+    expect(search(small, "b 500").kind).toBe('invalid');
+    expect(search(small, "a 100000").kind).toBe('invalid');
+    expect(search(small, "b 4").kind).toBe('invalid');
+    expect(search(small, "b 0").kind).toBe('pruned');
+    expect(search(small, "a 6").kind).toBe('pending');
+
+    // the ring wraps around: position 0 is used, position 1 is used again
+    small.applyDiff({...diff, diffIndex: 1, head: [], blocks: [
+        {selfPtr: 0, htr: "0x04", slot: 13, parent: 3},
+        {selfPtr: 1, htr: "0x05", slot: 14, parent: 0},
+    ], attestations: []});
+    expect(search(small, "b 0")).toMatchObject({kind: 'found', selection: {kind: 'block', ptr: 0}});
+    expect(search(small, "b 1")).toMatchObject({kind: 'found', message: "Block 1"});
+    expect(small.getBlock(1)!.slot).toBe(14);
+});
@@ -0,0 +1,139 @@
+import {BlockSummary, Slot} from "./protocol";
+import {ChainStore} from "./store";
+import {Selection} from "./selection";
+
+export type SearchQuery = {kind: 'root', prefix: string}
+    | {kind: 'slot', slot: Slot}
+    | {kind: 'block', ptr: number}
+    | {kind: 'attestation', ptr: number}
+    | {kind: 'validator', index: number};
+
+// 'missing' covers everything that is not in memory: pruned, not arrived yet or never existing.
+export type SearchResult = {kind: 'found', selection: Selection, message: string}
+    | {kind: 'pruned', message: string}
+    | {kind: 'pending', message: string}
+    | {kind: 'missing', message: string}
+    | {kind: 'invalid', message: string};
+
+const prefixes: Array<{names: Array<string>, kind: 'slot' | 'block' | 'attestation' | 'validator'}> = [
+    {names: ["slot", "s"], kind: 'slot'},
+    {names: ["block", "b"], kind: 'block'},
+    {names: ["attestation", "att", "a"], kind: 'attestation'},
+    {names: ["validator", "val", "v"], kind: 'validator'},
+];
+
+// Parse the search text. A plain number is a slot, other numbers need a prefix: "v 12", "validator:12", "a12".
+// Roots start with 0x, or are hex of at least 8 characters with a letter, to not be mistaken for a prefixed number.
+export const parseQuery = (text: string): SearchQuery | null => {
+    const q = text.trim().toLowerCase();
+    if (q === "") {
+        return null;
+    }
+    if (/^0x[0-9a-f]*$/.test(q) || (/^[0-9a-f]{8,}$/.test(q) && /[a-f]/.test(q))) {
+        const prefix = q.startsWith("0x") ? q.slice(2) : q;
+        return prefix === "" ? null : {kind: 'root', prefix};
+    }
+    const m = /^([a-z]*)[\s:#]*(\d+)$/.exec(q);
+    if (m === null) {
+        return null;
+    }
+    const n = parseInt(m[2], 10);
+    if (m[1] === "") {
+        return {kind: 'slot', slot: n};
+    }
+    const p = prefixes.find(p => p.names.includes(m[1]));
+    if (!p) {
+        return null;
+    }
+    switch (p.kind) {
+        case 'slot':
+            return {kind: 'slot', slot: n};
+        case 'block':
+            return {kind: 'block', ptr: n};
+        case 'attestation':
+            return {kind: 'attestation', ptr: n};
+        case 'validator':
+            return {kind: 'validator', index: n};
+    }
+};
+
+const rootHex = (b: BlockSummary) => (b.htr.startsWith("0x") ? b.htr.slice(2) : b.htr).toLowerCase();
+
+// Pointers are positions in a server ring buffer of the given size, and are reused once the buffer wraps around.
+// A pointer of a position that had an item since the data started was pruned. The server fills the positions in order,
+// so of the positions that never had an item, the ones after the last filled one have not arrived yet.
+const pointerStatus = (ring: Record<number, number>, limit: number, ptr: number, what: string): SearchResult => {
+    if (ptr >= limit) {
+        return {kind: 'invalid', message: `${what} ${ptr} is out of range, the server keeps ${limit}`};
+    }
+    if (ring[ptr] !== undefined) {
+        return {kind: 'pruned', message: `${what} ${ptr} was pruned from memory`};
+    }
+    const last = Object.keys(ring).reduce((m, p) => Math.max(m, Number(p)), -1);
+    if (ptr > last) {
+        return {kind: 'pending', message: `${what} ${ptr} has not arrived yet`};
+    }
+    return {kind: 'pruned', message: `${what} ${ptr} was pruned from memory`};
+};
+
+// Find the query in the current state of the store.
+export const resolveQuery = (store: ChainStore, query: SearchQuery): SearchResult => {
+    switch (query.kind) {
+        case 'root': {
+            const matches = Object.values(store.blocks).filter(b => rootHex(b).startsWith(query.prefix));
+            if (matches.length === 0) {
+                return {kind: 'missing', message: `No block with root 0x${query.prefix}… in memory: it was pruned or has not arrived yet`};
+            }
+            // the newest block, if the prefix is ambiguous
+            const b = matches.sort((a, b) => b.slot - a.slot)[0];
+            const note = matches.length > 1 ? `, ${matches.length} blocks match` : "";
+            return {kind: 'found', selection: {kind: 'block', ptr: b.selfPtr}, message: `Block at slot ${b.slot}${note}`};
+        }
+        case 'slot': {
+            const head = store.latestHead();
+            const blocks = Object.values(store.blocks);
+            if (head === null || blocks.length === 0) {
+                return {kind: 'pending', message: "No blocks have arrived yet"};
+            }
+            if (query.slot > head.slot) {
+                return {kind: 'pending', message: `Slot ${query.slot} has not arrived yet, the head is at slot ${head.slot}`};
+            }
+            const oldest = blocks.reduce((m, b) => Math.min(m, b.slot), head.slot);
+            if (query.slot < oldest) {
+                return {kind: 'pruned', message: `Slot ${query.slot} was pruned, the oldest block in memory is at slot ${oldest}`};
+            }
+            const atSlot = blocks.filter(b => b.slot === query.slot);
+            if (atSlot.length === 0) {
+                return {kind: 'missing', message: `Slot ${query.slot} has no block`};
+            }
+            // prefer the canonical block if there are competing ones
+            const canonical = store.canonicalChain().find(b => b.slot === query.slot);
+            const b = canonical || atSlot[0];
+            const note = atSlot.length > 1 ? `, ${atSlot.length} competing blocks` : "";
+            return {kind: 'found', selection: {kind: 'block', ptr: b.selfPtr}, message: `Block at slot ${b.slot}${note}`};
+        }
+        case 'block':
+            if (store.getBlock(query.ptr) !== null) {
+                return {kind: 'found', selection: {kind: 'block', ptr: query.ptr}, message: `Block ${query.ptr}`};
+            }
+            return pointerStatus(store.blockRing, store.limits.blocks, query.ptr, "Block");
+        case 'attestation':
+            if (store.getAttestation(query.ptr) !== null) {
+                return {kind: 'found', selection: {kind: 'attestation', ptr: query.ptr}, message: `Attestation ${query.ptr}`};
+            }
+            return pointerStatus(store.attestationRing, store.limits.attestations, query.ptr, "Attestation");
+        case 'validator':
+            if (query.index >= store.valCount) {
+                return {kind: 'pending', message: `Validator ${query.index} is not known yet, there are ${store.valCount} validators`};
+            }
+            return {kind: 'found', selection: {kind: 'validator', index: query.index}, message: `Validator ${query.index}`};
+    }
+};
+
+export const search = (store: ChainStore, text: string): SearchResult => {
+    const query = parseQuery(text);
+    if (query === null) {
+        return {kind: 'invalid', message: "Search a block root (0x…), a slot, or b/a/v followed by a block, attestation or validator number"};
+    }
+    return resolveQuery(store, query);
+};
@@ -0,0 +1,44 @@
+import {AttestationPtr, BlockPtr, ValidatorIndex} from "./protocol";
+
+export type Selection = {kind: 'block', ptr: BlockPtr}
+    | {kind: 'attestation', ptr: AttestationPtr}
+    | {kind: 'validator', index: ValidatorIndex};
+
+export type SelectionKind = Selection['kind'];
+
+// route path segment of a selection, e.g. "block/123"
+export const selectionPath = (sel: Selection): string => {
+    switch (sel.kind) {
+        case 'block':
+            return "block/" + sel.ptr;
+        case 'attestation':
+            return "attestation/" + sel.ptr;
+        case 'validator':
+            return "validator/" + sel.index;
+    }
+};
+
+// parse the selection from the route params, null if there is none or if it is invalid.
+export const parseSelection = (kind: string | undefined, id: string | undefined): Selection | null => {
+    if (kind === undefined || id === undefined || !/^\d+$/.test(id)) {
+        return null;
+    }
+    const n = parseInt(id, 10);
+    switch (kind) {
+        case 'block':
+            return {kind, ptr: n};
+        case 'attestation':
+            return {kind, ptr: n};
+        case 'validator':
+            return {kind, index: n};
+        default:
+            return null;
+    }
+};
+
+export const sameSelection = (a: Selection | null, b: Selection | null): boolean => {
+    if (a === null || b === null) {
+        return a === b;
+    }
+    return selectionPath(a) === selectionPath(b);
+};
@@ -0,0 +1,23 @@
+// User settings, persisted in localStorage as JSON under an "eth2wtf." prefixed key.
+
+const PREFIX = "eth2wtf.";
+
+export const loadSetting = <T>(key: string, defaultValue: T): T => {
+    try {
+        const raw = window.localStorage.getItem(PREFIX + key);
+        if (raw !== null) {
+            return JSON.parse(raw) as T;
+        }
+    } catch (e) {
+        console.log("could not load setting ", key, e);
+    }
+    return defaultValue;
+};
+
+export const saveSetting = <T>(key: string, value: T) => {
+    try {
+        window.localStorage.setItem(PREFIX + key, JSON.stringify(value));
+    } catch (e) {
+        console.log("could not save setting ", key, e);
+    }
+};
@@ -0,0 +1,135 @@
+import {ChainStore} from "./store";
+import {ChainSimulator} from "./simulator";
+import {SLOTS_PER_EPOCH, finalityStatus} from "./chain";
+import {computeForkChoice} from "./forkchoice";
+import {layoutDag} from "./layout";
+import {EventTracker, ReorgEvent} from "./events";
+
+const run = (sim: ChainSimulator, store: ChainStore, slots: number) => {
+    for (let i = 0; i < slots; i++) {
+        expect(store.applyDiff(sim.next())).toBe('ok');
+    }
+};
+
+it('is reproducible from the seed', () => {
+    const a = new ChainSimulator({seed: 7});
+    const b = new ChainSimulator({seed: 7});
+    for (let i = 0; i < 40; i++) {
+        expect(a.next()).toEqual(b.next());
+    }
+});
+
+it('produces a growing, finalizing chain with forks', () => {
+    const sim = new ChainSimulator({seed: 1, forkRate: 0.3});
+    const store = new ChainStore();
+    run(sim, store, SLOTS_PER_EPOCH * 6);
+
+    expect(store.valCount).toBe(256 + 5 * 16);
+    const status = finalityStatus(store);
+    expect(status).not.toBeNull();
+    expect(status!.finalizedEpoch).not.toBeNull();
+    expect(status!.lag).toBeLessThanOrEqual(3);
+
+    // some block has competing children
+    expect(Object.values(store.tree).some(e => e.known && e.children.length > 1)).toBe(true);
+    // the canonical chain leads back to the finalized checkpoint
+    const finalized = store.finalized[store.finalized.length - 1];
+    expect(store.canonicalChain().map(b => b.selfPtr)).toContain(finalized);
+    expect(computeForkChoice(store).canonical[0]).toBe(store.latestHead()!.headBlock);
+});
+
+it('only references blocks and attestations it sent', () => {
+    const sim = new ChainSimulator({seed: 3});
+    const store = new ChainStore();
+    run(sim, store, SLOTS_PER_EPOCH * 3);
+    for (let a of Object.values(store.attestations)) {
+        expect(store.getBlock(a.head)).not.toBeNull();
+        expect(store.getBlock(a.target)).not.toBeNull();
+        expect(store.getBlock(a.source)).not.toBeNull();
+        expect(store.getBlock(a.target)!.slot).toBeLessThanOrEqual(a.slot);
+    }
+    for (let vi = 0; vi < store.valCount; vi++) {
+        for (let a of store.votesOf(vi)) {
+            expect(store.votersOf(a.selfPtr)).toContain(vi);
+        }
+    }
+});
+
+it('stays within the memory limits when pointers are reused', () => {
+    const limits = {heads: 8, finalized: 4, blocks: 32, attestations: 64, latestVotes: 1024};
+    const sim = new ChainSimulator({seed: 5, limits, forkRate: 0.2});
+    const store = new ChainStore(limits);
+    run(sim, store, SLOTS_PER_EPOCH * 5);
+    expect(Object.keys(store.blocks).length).toBeLessThanOrEqual(limits.blocks);
+    expect(Object.keys(store.attestations).length).toBeLessThanOrEqual(limits.attestations);
+    expect(store.head.length).toBe(limits.heads);
+    // the store wraps the pointers like the simulator does
+    expect(store.memory!.latestVotes).toBeLessThan(limits.latestVotes);
+    expect(sim.next().previous).toEqual(store.memory);
+    for (let vi = 0; vi < store.valCount; vi++) {
+        for (let ptr of store.lastVotes[vi] || []) {
+            expect(store.getAttestation(ptr)).not.toBeNull();
+        }
+    }
+});
+
+it('lays out every block and attestation, with the canonical chain on top', () => {
+    const limits = {heads: 8, finalized: 4, blocks: 32, attestations: 64, latestVotes: 1024};
+    const sim = new ChainSimulator({seed: 9, limits, forkRate: 0.3});
+    const store = new ChainStore(limits);
+    run(sim, store, SLOTS_PER_EPOCH * 4);
+    const layout = layoutDag(store)!;
+    expect(layout).not.toBeNull();
+
+    const seen: Record<string, boolean> = {};
+    for (let b of Object.values(store.blocks)) {
+        const pos = layout.blocks[b.selfPtr];
+        expect(Number.isFinite(pos.x) && Number.isFinite(pos.y)).toBe(true);
+        expect(pos.x).toBe(layout.slotPos(b.slot));
+        // blocks of the same slot do not overlap
+        const key = pos.x + "," + pos.y;
+        expect(seen[key]).toBeUndefined();
+        seen[key] = true;
+    }
+    for (let b of store.canonicalChain()) {
+        expect(layout.blocks[b.selfPtr].y).toBe(0);
+    }
+    for (let a of Object.values(store.attestations)) {
+        const pos = layout.attestations[a.selfPtr];
+        expect(Number.isFinite(pos.x) && Number.isFinite(pos.y)).toBe(true);
+    }
+});
+
+it('keeps the finalized epoch when the checkpoint pointer is reused', () => {
+    const limits = {heads: 8, finalized: 4, blocks: 64, attestations: 256, latestVotes: 1024};
+    const sim = new ChainSimulator({seed: 1, limits});
+    const store = new ChainStore(limits);
+    run(sim, store, SLOTS_PER_EPOCH * 4);
+    // without votes finality stalls, while the blocks wrap around the ring buffer many times
+    sim.opts.participation = 0;
+    run(sim, store, SLOTS_PER_EPOCH * 2);
+    const before = finalityStatus(store)!;
+    expect(before.finalizedEpoch).not.toBeNull();
+    const cp = store.latestCheckpoint()!;
+
+    run(sim, store, SLOTS_PER_EPOCH * 10);
+    const after = finalityStatus(store)!;
+    expect(after.headEpoch).toBeGreaterThanOrEqual(15);
+    expect(after.finalizedEpoch).toBe(before.finalizedEpoch);
+    expect(after.lag).toBe(after.headEpoch - before.finalizedEpoch!);
+    // the pointer now holds a newer block, which is not the checkpoint
+    expect(store.getBlock(cp.ptr)!.slot).toBeGreaterThan(cp.slot!);
+    expect(store.checkpointBlock(cp)).toBeNull();
+    expect(after.finalizedBlock).toBeNull();
+});
+
+it('generates reorgs deeper than one block', () => {
+    const sim = new ChainSimulator({seed: 3, forkRate: 0.3, reorgRate: 0.5, maxReorgDepth: 3});
+    const store = new ChainStore();
+    const tracker = new EventTracker();
+    store.subscribe(update => tracker.onUpdate(store, update, 0));
+    run(sim, store, SLOTS_PER_EPOCH * 4);
+    const depths = tracker.events.filter(e => e.kind === 'reorg').map(e => (e as ReorgEvent).depth);
+    expect(depths.some(d => d > 1)).toBe(true);
+    expect(depths.every(d => d >= 1 && d <= 3)).toBe(true);
+});
@@ -0,0 +1,371 @@
+import {
+    AttestationSummary, BlockPtr, BlockSummary, CommitteeIndex, Epoch, Gwei, HeadSummary, MemoryDiff, MemoryLimits,
+    MemoryState, Root, Slot, ValidatorIndex, ValidatorStatus, ValidatorSummary, VoteSummary, defaultMemoryLimits
+} from "./protocol";
+import {SLOTS_PER_EPOCH, epochStartSlot, isSupermajority, slotToEpoch} from "./chain";
+
+export type SimulatorOptions = {
+    // seed of the pseudo random generator: the same options produce the same diffs.
+    seed: number;
+    limits: MemoryLimits;
+    initialValidators: number;
+    // validators that join at the start of each epoch
+    validatorsPerEpoch: number;
+    // chance that a slot has no block
+    missedSlotRate: number;
+    // chance that a slot has a second, competing block
+    forkRate: number;
+    // chance that the competing block wins, and the chain reorgs
+    reorgRate: number;
+    // the competing block builds on an ancestor of the head, 1 to this many blocks back: the depth of the reorg if it wins
+    maxReorgDepth: number;
+    // chance that a validator attests in its slot
+    participation: number;
+    // chance that an attesting committee still votes for the previous head
+    lateRate: number;
+    committeesPerSlot: number;
+    // chance per epoch that a validator gets slashed, and that one starts exiting
+    slashingRate: number;
+    exitRate: number;
+}
+
+export const defaultSimulatorOptions: SimulatorOptions = {
+    seed: 42,
+    limits: defaultMemoryLimits,
+    initialValidators: 256,
+    validatorsPerEpoch: 16,
+    missedSlotRate: 0.1,
+    forkRate: 0.08,
+    reorgRate: 0.3,
+    maxReorgDepth: 3,
+    participation: 0.9,
+    lateRate: 0.05,
+    committeesPerSlot: 4,
+    slashingRate: 0.05,
+    exitRate: 0.1,
+};
+
+const STAKE: Gwei = 32e9;
+
+// query param that selects the simulator instead of a websocket, the value is the slot time in ms.
+export const SIMULATOR_PARAM = "sim";
+// endpoint of the simulator network, followed by the slot time in ms
+export const SIMULATOR_ENDPOINT = "sim:";
+export const DEFAULT_SIM_SLOT_TIME = 1000;
+
+type SimBlock = {
+    summary: BlockSummary;
+    // null when the parent is older than the finalized checkpoint
+    parent: SimBlock | null;
+}
+
+type Tally = {
+    source: Gwei;
+    target: Gwei;
+    head: Gwei;
+}
+
+// Small seeded PRNG (mulberry32), the simulation has to be reproducible.
+const makeRandom = (seed: number) => {
+    let s = seed >>> 0;
+    return (): number => {
+        s = (s + 0x6D2B79F5) >>> 0;
+        let t = s;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Generates a plausible chain, as the stream of memory diffs the server would send: one diff per slot.
+// Pointers rotate around ring buffers of the configured limits, like the server memory.
+export class ChainSimulator {
+    opts: SimulatorOptions;
+
+    slot: Slot = 0;
+    diffIndex: number = 0;
+    valCount: number;
+
+    private random: () => number;
+    private state: MemoryState = {head: 0, finalized: 0, blocks: 0, attestations: 0, latestVotes: 0};
+    private head: SimBlock;
+    private justified: SimBlock;
+    private justifiedEpoch: Epoch = 0;
+    private finalizedEpoch: Epoch = 0;
+    // FFG vote weights of the attestations of each epoch
+    private tallies: Record<Epoch, Tally> = {};
+    private validators: Array<ValidatorSummary> = [];
+    private statusCounts: Record<ValidatorStatus, number> = {pending: 0, active: 0, slashed: 0, exiting: 0, withdrawable: 0};
+    // effective balance of the validators that are not withdrawable yet
+    private staked: Gwei = 0;
+
+    constructor(opts: Partial<SimulatorOptions> = {}) {
+        this.opts = {...defaultSimulatorOptions, ...opts};
+        this.random = makeRandom(this.opts.seed);
+        this.valCount = 0;
+        this.head = {summary: this.makeBlock(0, 0), parent: null};
+        this.justified = this.head;
+    }
+
+    private addValidators(count: number, changed: Array<ValidatorSummary>) {
+        for (let i = 0; i < count; i++) {
+            // most validators have the full effective balance, some lost a little
+            const effectiveBalance = this.random() < 0.9 ? STAKE : (24 + Math.floor(this.random() * 8)) * 1e9;
+            const v: ValidatorSummary = {
+                validatorIndex: this.valCount,
+                status: 'active',
+                effectiveBalance,
+                balance: effectiveBalance + Math.floor(this.random() * 0.5e9),
+            };
+            this.validators.push(v);
+            this.statusCounts.active += 1;
+            this.staked += effectiveBalance;
+            this.valCount += 1;
+            changed.push(v);
+        }
+    }
+
+    private setStatus(vi: ValidatorIndex, status: ValidatorStatus, changed: Array<ValidatorSummary>) {
+        const prev = this.validators[vi];
+        const v: ValidatorSummary = {...prev, status};
+        if (status === 'slashed') {
+            v.effectiveBalance -= 1e9;
+            v.balance -= 1e9;
+        }
+        if (status === 'withdrawable') {
+            this.staked -= prev.effectiveBalance;
+        } else {
+            this.staked += v.effectiveBalance - prev.effectiveBalance;
+        }
+        this.statusCounts[prev.status] -= 1;
+        this.statusCounts[status] += 1;
+        this.validators[vi] = v;
+        changed.push(v);
+    }
+
+    // exits complete after an epoch, and some active validators get slashed or start exiting.
+    private processValidators(changed: Array<ValidatorSummary>) {
+        for (let v of this.validators) {
+            if (v.status === 'exiting') {
+                this.setStatus(v.validatorIndex, 'withdrawable', changed);
+            }
+        }
+        const pick = (): ValidatorIndex | null => {
+            const vi = Math.floor(this.random() * this.valCount);
+            return this.validators[vi].status === 'active' ? vi : null;
+        };
+        if (this.random() < this.opts.slashingRate) {
+            const vi = pick();
+            if (vi !== null) this.setStatus(vi, 'slashed', changed);
+        }
+        if (this.random() < this.opts.exitRate) {
+            const vi = pick();
+            if (vi !== null) this.setStatus(vi, 'exiting', changed);
+        }
+    }
+
+    private randomRoot(): Root {
+        let out = "0x";
+        for (let i = 0; i < 8; i++) {
+            out += Math.floor(this.random() * 4294967296).toString(16).padStart(8, "0");
+        }
+        return out;
+    }
+
+    private makeBlock(slot: Slot, parent: BlockPtr): BlockSummary {
+        const selfPtr = this.state.blocks;
+        this.state.blocks = (this.state.blocks + 1) % this.opts.limits.blocks;
+        return {selfPtr, htr: this.randomRoot(), slot, parent};
+    }
+
+    private propose(parent: SimBlock, slot: Slot): SimBlock {
+        return {summary: this.makeBlock(slot, parent.summary.selfPtr), parent};
+    }
+
+    // the checkpoint of the epoch, as seen from the block: its latest ancestor at or before the epoch start
+    private checkpoint(block: SimBlock, epoch: Epoch): SimBlock {
+        const start = epochStartSlot(epoch);
+        let b = block;
+        while (b.summary.slot > start && b.parent !== null) {
+            b = b.parent;
+        }
+        return b;
+    }
+
+    private tally(epoch: Epoch): Tally {
+        return this.tallies[epoch] || (this.tallies[epoch] = {source: 0, target: 0, head: 0});
+    }
+
+    // committee members of the slot: every validator attests once per epoch.
+    private committees(slot: Slot): Array<Array<ValidatorIndex>> {
+        const out: Array<Array<ValidatorIndex>> = [];
+        for (let c = 0; c < this.opts.committeesPerSlot; c++) {
+            out.push([]);
+        }
+        const offset = slot % SLOTS_PER_EPOCH;
+        for (let vi = offset, i = 0; vi < this.valCount; vi += SLOTS_PER_EPOCH, i++) {
+            out[i % this.opts.committeesPerSlot].push(vi);
+        }
+        return out;
+    }
+
+    private attest(slot: Slot, commIndex: CommitteeIndex, members: Array<ValidatorIndex>, head: SimBlock,
+                   canonical: SimBlock, attestations: Array<AttestationSummary>, votes: Array<VoteSummary>) {
+        const attesters = members.filter(vi => {
+            const status = this.validators[vi].status;
+            return (status === 'active' || status === 'exiting') && this.random() < this.opts.participation;
+        });
+        if (attesters.length === 0) {
+            return;
+        }
+        const epoch = slotToEpoch(slot);
+        const target = this.checkpoint(head, epoch);
+        const selfPtr = this.state.attestations;
+        this.state.attestations = (this.state.attestations + 1) % this.opts.limits.attestations;
+        attestations.push({
+            selfPtr, slot, commIndex,
+            head: head.summary.selfPtr,
+            target: target.summary.selfPtr,
+            source: this.justified.summary.selfPtr,
+        });
+        let weight = 0;
+        for (let vi of attesters) {
+            weight += this.validators[vi].effectiveBalance;
+        }
+        const t = this.tally(epoch);
+        t.source += weight;
+        if (target === this.checkpoint(canonical, epoch)) {
+            t.target += weight;
+        }
+        if (head === canonical) {
+            t.head += weight;
+        }
+        for (let vi of attesters) {
+            votes.push({validatorIndex: vi, attestationPtr: selfPtr});
+        }
+        this.state.latestVotes = (this.state.latestVotes + attesters.length) % this.opts.limits.latestVotes;
+    }
+
+    // Justify the previous epoch if its target votes reached a supermajority,
+    // and finalize the older checkpoint when two epochs in a row are justified.
+    private processJustification(epoch: Epoch, finalized: Array<BlockPtr>) {
+        const prev = epoch - 1;
+        if (prev < 0) {
+            return;
+        }
+        if (isSupermajority(this.tally(prev).target, this.staked)) {
+            const checkpoint = this.checkpoint(this.head, prev);
+            if (this.justifiedEpoch === prev - 1 && prev - 1 > this.finalizedEpoch) {
+                this.finalizedEpoch = prev - 1;
+                finalized.push(this.justified.summary.selfPtr);
+                this.state.finalized = (this.state.finalized + 1) % this.opts.limits.finalized;
+                // everything before the finalized checkpoint is settled
+                this.justified.parent = null;
+            }
+            this.justified = checkpoint;
+            this.justifiedEpoch = prev;
+        }
+        delete this.tallies[prev - 1];
+    }
+
+    private headSummary(slot: Slot): HeadSummary {
+        const epoch = slotToEpoch(slot);
+        const total = this.valCount;
+        const depositIndex = total;
+        const counts = this.statusCounts;
+        const eligible = counts.active + counts.exiting;
+        return {
+            headBlock: this.head.summary.selfPtr,
+            slot,
+            proposerIndex: Math.floor(this.random() * total),
+            validatorCounts: {
+                total, active: counts.active, slashed: counts.slashed, eligible,
+                nonEligible: total - eligible, exiting: counts.exiting, withdrawable: counts.withdrawable,
+            },
+            totalStaked: this.staked,
+            avgBalance: total > 0 ? this.staked / total : 0,
+            depositIndex,
+            eth1Data: {depositRoot: this.randomRoot(), depositCount: depositIndex, blockHash: this.randomRoot()},
+            previousFFG: {...this.tally(epoch - 1)},
+            currentFFG: {...this.tally(epoch)},
+        };
+    }
+
+    // simulate the next slot, and return the diff of the server memory.
+    next(): MemoryDiff {
+        const previous = {...this.state};
+        const slot = this.slot;
+        const epoch = slotToEpoch(slot);
+        const blocks: Array<BlockSummary> = [];
+        const attestations: Array<AttestationSummary> = [];
+        const latestVotes: Array<VoteSummary> = [];
+        const finalized: Array<BlockPtr> = [];
+        const validators: Array<ValidatorSummary> = [];
+
+        if (slot === 0) {
+            blocks.push(this.head.summary);
+            this.addValidators(this.opts.initialValidators, validators);
+        } else if (slot % SLOTS_PER_EPOCH === 0) {
+            this.processJustification(epoch, finalized);
+            this.processValidators(validators);
+            this.addValidators(this.opts.validatorsPerEpoch, validators);
+        }
+
+        // the head the attesters of the slot saw before it, and the head after it
+        const previousHead = this.head;
+        let loser: SimBlock | null = null;
+        if (slot > 0 && this.random() >= this.opts.missedSlotRate) {
+            const block = this.propose(this.head, slot);
+            blocks.push(block.summary);
+            // a competing block builds on an ancestor of the head, skipping the head and the blocks after the ancestor.
+            // It does not skip the justified checkpoint.
+            if (this.head.parent !== null && this.random() < this.opts.forkRate) {
+                const depth = 1 + Math.floor(this.random() * this.opts.maxReorgDepth);
+                let forkPoint = this.head.parent;
+                for (let d = 1; d < depth && forkPoint !== this.justified && forkPoint.parent !== null; d++) {
+                    forkPoint = forkPoint.parent;
+                }
+                const competitor = this.propose(forkPoint, slot);
+                blocks.push(competitor.summary);
+                if (this.random() < this.opts.reorgRate) {
+                    loser = block;
+                    this.head = competitor;
+                } else {
+                    loser = competitor;
+                    this.head = block;
+                }
+            } else {
+                this.head = block;
+            }
+        }
+
+        const committees = this.committees(slot);
+        for (let c = 0; c < committees.length; c++) {
+            let vote = this.head;
+            const r = this.random();
+            if (loser !== null && r < 0.25) {
+                vote = loser;
+            } else if (r > 1 - this.opts.lateRate) {
+                vote = previousHead;
+            }
+            this.attest(slot, c, committees[c], vote, this.head, attestations, latestVotes);
+        }
+
+        const head = this.headSummary(slot);
+        this.state.head = (this.state.head + 1) % this.opts.limits.heads;
+
+        const diff: MemoryDiff = {
+            diffIndex: this.diffIndex,
+            previous,
+            head: [head],
+            finalized,
+            blocks,
+            attestations,
+            latestVotes,
+            validators,
+        };
+        this.slot += 1;
+        this.diffIndex += 1;
+        return diff;
+    }
+}
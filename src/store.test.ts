@@ -0,0 +1,263 @@
+import {AttestationSummary, BlockSummary, HeadSummary, MemoryDiff} from "./protocol";
+import {ChainStore, PRUNED_PTR, StoreUpdate} from "./store";
+import {DiffSync} from "./sync";
+
+const block = (selfPtr: number, slot: number, parent: number): BlockSummary => ({
+    selfPtr, slot, parent, htr: "0x" + selfPtr,
+});
+
+const att = (selfPtr: number, slot: number, head: number): AttestationSummary => ({
+    selfPtr, slot, commIndex: 0, head, target: head, source: head,
+});
+
+const headSummary = (headBlock: number, slot: number, validators: number): HeadSummary => ({
+    headBlock,
+    slot,
+    proposerIndex: 0,
+    validatorCounts: {
+        total: validators, active: validators, slashed: 0, eligible: validators,
+        nonEligible: 0, exiting: 0, withdrawable: 0,
+    },
+    totalStaked: validators * 32e9,
+    avgBalance: 32e9,
+    depositIndex: validators,
+    eth1Data: {depositRoot: "0x00", depositCount: validators, blockHash: "0x00"},
+    previousFFG: {source: 0, target: 0, head: 0},
+    currentFFG: {source: 0, target: 0, head: 0},
+});
+
+const diff = (diffIndex: number, contents: Partial<MemoryDiff>): MemoryDiff => ({
+    diffIndex,
+    previous: {head: 0, finalized: 0, blocks: 0, attestations: 0, latestVotes: 0},
+    head: [],
+    finalized: [],
+    blocks: [],
+    attestations: [],
+    latestVotes: [],
+    ...contents,
+});
+
+const limits = {heads: 4, finalized: 4, blocks: 4, attestations: 4, latestVotes: 1024};
+
+it('applies diffs in order', () => {
+    const store = new ChainStore(limits);
+    expect(store.applyDiff(diff(5, {blocks: [block(0, 1, 9)]}))).toBe('ok');
+    expect(store.memory).toEqual({head: 0, finalized: 0, blocks: 1, attestations: 0, latestVotes: 0});
+    expect(store.applyDiff(diff(5, {}))).toBe('too_old');
+    expect(store.applyDiff(diff(7, {}))).toBe('too_new');
+    expect(store.applyDiff(diff(6, {}))).toBe('ok');
+    expect(store.nextDiffIndex).toBe(7);
+});
+
+it('builds the block tree and canonical chain', () => {
+    const store = new ChainStore(limits);
+    store.applyDiff(diff(0, {
+        head: [headSummary(2, 3, 8)],
+        blocks: [block(0, 1, 9), block(1, 2, 0), block(2, 3, 1), block(3, 3, 0)],
+    }));
+    expect(store.getChildren(0).map(b => b.selfPtr)).toEqual([1, 3]);
+    expect(store.getParent(2)).toEqual(block(1, 2, 0));
+    expect(store.canonicalChain().map(b => b.selfPtr)).toEqual([2, 1, 0]);
+    expect(store.valCount).toBe(8);
+});
+
+it('links children that arrive before their parent', () => {
+    const store = new ChainStore(limits);
+    store.applyDiff(diff(0, {blocks: [block(1, 2, 0), block(0, 1, 9)]}));
+    expect(store.getChildren(0).map(b => b.selfPtr)).toEqual([1]);
+    expect(store.canonicalChain(1).map(b => b.selfPtr)).toEqual([1, 0]);
+});
+
+it('prunes blocks when their ring buffer position is reused', () => {
+    const store = new ChainStore(limits);
+    const updates: Array<StoreUpdate> = [];
+    store.subscribe(u => updates.push(u));
+    store.applyDiff(diff(0, {blocks: [block(0, 1, 9), block(1, 2, 0), block(2, 3, 1), block(3, 4, 2)]}));
+    // pointer 4 takes the position of pointer 0, pointer 1 is reused for a new block
+    store.applyDiff(diff(1, {blocks: [block(4, 5, 3), block(1, 6, 4)]}));
+
+    expect(updates[1].prunedBlocks.map(b => b.selfPtr)).toEqual([0, 1]);
+    expect(store.getBlock(0)).toBeNull();
+    expect(store.getBlock(1)).toEqual(block(1, 6, 4));
+    // the old child of the reused pointer does not link to the new block
+    expect(store.tree[2].parent).toBe(PRUNED_PTR);
+    expect(store.canonicalChain(2).map(b => b.selfPtr)).toEqual([2]);
+    expect(store.canonicalChain(1).map(b => b.selfPtr)).toEqual([1, 4, 3, 2]);
+});
+
+it('does not resolve attestation references to a newer block with the same pointer', () => {
+    const store = new ChainStore(limits);
+    store.applyDiff(diff(0, {
+        blocks: [block(0, 1, 9), block(1, 2, 0), block(2, 3, 1)],
+        attestations: [att(0, 2, 1), att(1, 3, 2)],
+    }));
+    expect(store.attestedBlock(att(0, 2, 1), 1)).toEqual(block(1, 2, 0));
+    expect(store.attestationsFor(1).map(a => a.selfPtr)).toEqual([0]);
+    // pointer 1 is reused by a block after the slot of attestation 0
+    store.applyDiff(diff(1, {blocks: [block(3, 4, 2), block(1, 5, 3)]}));
+    expect(store.attestedBlock(att(0, 2, 1), 1)).toBeNull();
+    expect(store.attestationsFor(1)).toEqual([]);
+    expect(store.attestationsFor(2).map(a => a.selfPtr)).toEqual([1]);
+});
+
+it('drops head and finalized references to evicted blocks', () => {
+    const store = new ChainStore(limits);
+    store.applyDiff(diff(0, {
+        head: [headSummary(3, 4, 2)],
+        finalized: [0, 1],
+        blocks: [block(0, 1, 9), block(1, 2, 0), block(2, 3, 1), block(3, 4, 2)],
+    }));
+    // pointers 4 and 5 take the positions of pointers 0 and 1, the new head and finalized pointer refer to them
+    store.applyDiff(diff(1, {
+        head: [headSummary(5, 6, 2)],
+        finalized: [4],
+        blocks: [block(4, 5, 3), block(5, 6, 4)],
+    }));
+    expect(store.finalized).toEqual([4]);
+    expect(store.head.map(h => h.headBlock)).toEqual([3, 5]);
+
+    // pointer 7 takes the position of pointer 3: the old head no longer points at a block
+    store.applyDiff(diff(2, {blocks: [block(7, 7, 5)]}));
+    expect(store.head.map(h => h.headBlock)).toEqual([PRUNED_PTR, 5]);
+    expect(store.head[0].slot).toBe(4);
+
+    // the same block sent again keeps its references
+    store.applyDiff(diff(3, {blocks: [block(5, 6, 4)]}));
+    expect(store.head.map(h => h.headBlock)).toEqual([PRUNED_PTR, 5]);
+    expect(store.finalized).toEqual([4]);
+});
+
+it('requests a snapshot when too many diffs are buffered, and continues after loading it', () => {
+    const store = new ChainStore(limits);
+    const requests: Array<any> = [];
+    const sync = new DiffSync(store, req => requests.push(req), {gapTimeout: 100, resyncTimeout: 1000, maxPending: 2});
+    sync.push(diff(0, {blocks: [block(0, 1, 9)], finalized: [0]}), 0);
+    for (let i = 2; i <= 4; i++) {
+        sync.push(diff(i, {blocks: [block(i, i + 1, i - 1)]}), i);
+    }
+    expect(requests).toEqual([{type: 'resync', from: null, to: null}]);
+
+    store.loadSnapshot({
+        type: 'snapshot',
+        diffIndex: 2,
+        state: {head: 1, finalized: 1, blocks: 3, attestations: 0, latestVotes: 0},
+        head: [headSummary(2, 3, 4)],
+        finalized: [1],
+        blocks: [block(1, 2, 0), block(2, 3, 1)],
+        attestations: [],
+        latestVotes: [],
+    });
+    sync.onResynced();
+    expect(sync.pendingIndices()).toEqual([]);
+    expect(store.nextDiffIndex).toBe(5);
+    expect(store.canonicalChain(4).map(b => b.selfPtr)).toEqual([4, 3, 2, 1]);
+    // the snapshot replaced everything before it, the next block took the position of pointer 0 again
+    expect(store.finalized).toEqual([1]);
+    expect(store.getBlock(0)).toBeNull();
+});
+
+it('starts over when the memory limits change', () => {
+    const store = new ChainStore(limits);
+    const updates: Array<StoreUpdate> = [];
+    store.subscribe(u => updates.push(u));
+    store.applyDiff(diff(0, {blocks: [block(0, 1, 9)]}));
+    expect(store.setLimits({...limits})).toBe(false);
+    expect(store.setLimits({...limits, blocks: 0})).toBe(false);
+    expect(store.getBlock(0)).not.toBeNull();
+
+    expect(store.setLimits({...limits, blocks: 8})).toBe(true);
+    expect(updates[updates.length - 1].reset).toBe(true);
+    expect(store.getBlock(0)).toBeNull();
+    expect(store.nextDiffIndex).toBeNull();
+    // pointer 4 no longer shares a position with pointer 0
+    store.applyDiff(diff(0, {blocks: [block(0, 1, 9), block(4, 2, 0)]}));
+    expect(store.getBlock(0)).not.toBeNull();
+});
+
+it('bounds the head and finalized history', () => {
+    const store = new ChainStore(limits);
+    for (let i = 0; i < 10; i++) {
+        store.applyDiff(diff(i, {head: [headSummary(0, i, 1)], finalized: [i]}));
+    }
+    expect(store.head.map(h => h.slot)).toEqual([6, 7, 8, 9]);
+    expect(store.finalized).toEqual([6, 7, 8, 9]);
+});
+
+it('keeps the latest votes per validator, and drops votes on pruned attestations', () => {
+    const store = new ChainStore(limits);
+    store.applyDiff(diff(0, {
+        head: [headSummary(0, 1, 2)],
+        blocks: [block(0, 1, 9)],
+        attestations: [att(0, 1, 0), att(1, 2, 0), att(2, 3, 0), att(3, 4, 0)],
+        latestVotes: [
+            {validatorIndex: 0, attestationPtr: 0},
+            {validatorIndex: 0, attestationPtr: 2},
+            {validatorIndex: 0, attestationPtr: 1},
+            {validatorIndex: 0, attestationPtr: 3},
+            {validatorIndex: 1, attestationPtr: 1},
+            // validator out of range is ignored
+            {validatorIndex: 5, attestationPtr: 1},
+        ],
+    }));
+    expect(store.votesOf(0).map(a => a.selfPtr)).toEqual([3, 2, 1]);
+    expect(store.votersOf(1)).toEqual([0, 1]);
+    expect(store.votersOf(0)).toEqual([]);
+
+    store.applyDiff(diff(1, {attestations: [att(5, 5, 0)]}));
+    expect(store.getAttestation(1)).toBeNull();
+    expect(store.votesOf(0).map(a => a.selfPtr)).toEqual([3, 2]);
+    expect(store.votesOf(1)).toEqual([]);
+});
+
+it('notifies subscribers until they unsubscribe', () => {
+    const store = new ChainStore(limits);
+    const updates: Array<StoreUpdate> = [];
+    const unsubscribe = store.subscribe(u => updates.push(u));
+    store.applyDiff(diff(0, {}));
+    store.reset();
+    unsubscribe();
+    store.applyDiff(diff(1, {}));
+    expect(updates.map(u => u.reset)).toEqual([false, true]);
+});
+
+it('rebuilds from a snapshot', () => {
+    const store = new ChainStore(limits);
+    store.applyDiff(diff(0, {blocks: [block(0, 1, 9)]}));
+    store.loadSnapshot({
+        type: 'snapshot',
+        diffIndex: 10,
+        state: {head: 1, finalized: 0, blocks: 1, attestations: 0, latestVotes: 0},
+        head: [headSummary(1, 2, 4)],
+        finalized: [],
+        blocks: [block(1, 2, 0)],
+        attestations: [],
+        latestVotes: [],
+    });
+    expect(store.getBlock(0)).toBeNull();
+    expect(store.getBlock(1)).toEqual(block(1, 2, 0));
+    expect(store.nextDiffIndex).toBe(11);
+    expect(store.memory).toEqual({head: 1, finalized: 0, blocks: 1, attestations: 0, latestVotes: 0});
+});
+
+it('buffers early diffs and requests a resync for gaps that do not close', () => {
+    const store = new ChainStore(limits);
+    const requests: Array<any> = [];
+    const sync = new DiffSync(store, req => requests.push(req), {gapTimeout: 100, resyncTimeout: 1000, maxPending: 8});
+    sync.push(diff(0, {}), 0);
+    sync.push(diff(2, {}), 10);
+    sync.push(diff(3, {}), 20);
+    expect(store.nextDiffIndex).toBe(1);
+    expect(requests).toEqual([]);
+
+    sync.check(200);
+    expect(requests).toEqual([{type: 'resync', from: 1, to: 1}]);
+    // no repeated requests while waiting for the response
+    sync.check(300);
+    expect(requests.length).toBe(1);
+
+    sync.push(diff(1, {}), 400);
+    expect(store.nextDiffIndex).toBe(4);
+    expect(sync.pendingIndices()).toEqual([]);
+    // stale diffs are dropped
+    expect(sync.push(diff(2, {}), 500)).toBe('too_old');
+});
@@ -0,0 +1,450 @@
+import {
+    AttestationPtr, AttestationSummary, BlockPtr, BlockSummary, HeadSummary, MemoryDiff, MemoryLimits, MemoryState, Root,
+    Slot, Snapshot, ValidatorIndex, ValidatorSummary, defaultMemoryLimits, memoryStateAfter, snapshotToDiff
+} from "./protocol";
+import {DiffStatus, DiffTarget} from "./sync";
+
+export type TreeEntry = {
+    parent: BlockPtr;
+    slot: Slot;
+    children: Array<BlockPtr>;
+    // false if the entry is a placeholder for a parent block that did not arrive (yet)
+    known: boolean;
+}
+
+// parent pointer of a tree entry after its parent was pruned, or when its parent is unknown.
+export const PRUNED_PTR: BlockPtr = -1;
+
+// number of latest votes to remember per validator
+export const VOTES_MEMORY = 3;
+
+// A finality update, with the block it finalized as of its arrival.
+// The pointer may be reused by a newer block later, the root tells them apart.
+export type FinalizedCheckpoint = {
+    ptr: BlockPtr;
+    // root and slot of the block at the pointer when the update arrived, null if the block was not in memory
+    root: Root | null;
+    slot: Slot | null;
+}
+
+export type StoreUpdate = {
+    // true if all previous data was dropped before applying the diff
+    reset: boolean;
+    // the diff that was applied, if any
+    diff: MemoryDiff | null;
+    // data evicted from memory to make room for the diff
+    prunedBlocks: Array<BlockSummary>;
+    prunedAttestations: Array<AttestationSummary>;
+}
+
+export type StoreListener = (update: StoreUpdate) => void;
+
+// Renderer-independent chain state, built from the stream of memory diffs.
+// Memory is bounded like the server memory: pointers rotate around ring buffers of the configured limits.
+export class ChainStore implements DiffTarget {
+    limits: MemoryLimits;
+
+    nextDiffIndex: number | null = null;
+    // pointers of the server memory, as of the last applied diff or snapshot
+    memory: MemoryState | null = null;
+
+    valCount: number = 0;
+    head: Array<HeadSummary> = [];
+    finalized: Array<BlockPtr> = [];
+    // the finality updates, latest last. Unlike the finalized pointers, these outlive the eviction of their block.
+    checkpoints: Array<FinalizedCheckpoint> = [];
+    blocks: Record<BlockPtr, BlockSummary> = {};
+    attestations: Record<AttestationPtr, AttestationSummary> = {};
+    tree: Record<BlockPtr, TreeEntry> = {};
+    // latest votes of each validator, most recent first
+    lastVotes: Record<ValidatorIndex, Array<AttestationPtr>> = {};
+    // validators that have each attestation as one of their latest votes
+    voters: Record<AttestationPtr, Array<ValidatorIndex>> = {};
+    // status and balance of each validator, if the server sends them
+    validators: Record<ValidatorIndex, ValidatorSummary> = {};
+
+    // pointer that currently occupies each ring-buffer position of the server memory
+    blockRing: Record<number, BlockPtr> = {};
+    attestationRing: Record<number, AttestationPtr> = {};
+
+    private listeners: Array<StoreListener> = [];
+
+    constructor(limits: MemoryLimits = defaultMemoryLimits) {
+        this.limits = limits;
+    }
+
+    // Register a listener for every change to the store. Returns a function to unsubscribe again.
+    subscribe(listener: StoreListener): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter(l => l !== listener);
+        };
+    }
+
+    private notify(update: StoreUpdate) {
+        for (let listener of this.listeners) {
+            listener(update);
+        }
+    }
+
+    private clear() {
+        this.nextDiffIndex = null;
+        this.memory = null;
+        this.valCount = 0;
+        this.head = [];
+        this.finalized = [];
+        this.checkpoints = [];
+        this.blocks = {};
+        this.attestations = {};
+        this.tree = {};
+        this.lastVotes = {};
+        this.voters = {};
+        this.validators = {};
+        this.blockRing = {};
+        this.attestationRing = {};
+    }
+
+    // drop all chain data, to start over from a fresh diff or snapshot.
+    reset() {
+        this.clear();
+        this.notify({reset: true, diff: null, prunedBlocks: [], prunedAttestations: []});
+    }
+
+    // Follow the memory sizes of the server. The pointers of the current data do not fit other sizes,
+    // so a change drops everything. Returns true if the limits changed.
+    setLimits(limits: MemoryLimits): boolean {
+        const l = this.limits;
+        if (limits.heads === l.heads && limits.finalized === l.finalized
+            && limits.blocks === l.blocks && limits.attestations === l.attestations
+            && limits.latestVotes === l.latestVotes) {
+            return false;
+        }
+        if (Object.values(limits).some(v => !(v > 0))) {
+            console.log("ignoring invalid memory limits: ", limits);
+            return false;
+        }
+        this.limits = limits;
+        this.reset();
+        return true;
+    }
+
+    // rebuild the state from a full snapshot of the server memory.
+    loadSnapshot(snapshot: Snapshot) {
+        this.clear();
+        this.apply(snapshotToDiff(snapshot), true);
+    }
+
+    // apply the diff, return too_old|ok|too_new based on diff aligning to current state.
+    applyDiff(diff: MemoryDiff): DiffStatus {
+        if (this.nextDiffIndex != null) {
+            if (this.nextDiffIndex < diff.diffIndex) {
+                return 'too_new';
+            }
+            if (this.nextDiffIndex > diff.diffIndex) {
+                return 'too_old';
+            }
+        }
+        this.apply(diff, false);
+        return 'ok';
+    }
+
+    private apply(diff: MemoryDiff, reset: boolean) {
+        const update: StoreUpdate = {reset, diff, prunedBlocks: [], prunedAttestations: []};
+
+        // blocks go first: evicting the old blocks also drops the old head and finalized references to them,
+        // the references of this diff are to the new blocks.
+        for (let b of diff.blocks) {
+            this.evictForBlock(b, update);
+            this.blocks[b.selfPtr] = b;
+            this.addTreeBlock(b);
+        }
+
+        this.head.push(...diff.head);
+        if (this.head.length > this.limits.heads) {
+            this.head = this.head.slice(this.head.length - this.limits.heads);
+        }
+        for (let head of diff.head) {
+            if (head.validatorCounts.total > this.valCount) this.valCount = head.validatorCounts.total;
+        }
+
+        this.finalized.push(...diff.finalized);
+        if (this.finalized.length > this.limits.finalized) {
+            this.finalized = this.finalized.slice(this.finalized.length - this.limits.finalized);
+        }
+        for (let ptr of diff.finalized) {
+            const b = this.blocks[ptr];
+            this.checkpoints.push({ptr, root: b ? b.htr : null, slot: b ? b.slot : null});
+        }
+        if (this.checkpoints.length > this.limits.finalized) {
+            this.checkpoints = this.checkpoints.slice(this.checkpoints.length - this.limits.finalized);
+        }
+
+        for (let a of diff.attestations) {
+            this.evictForAttestation(a.selfPtr, update);
+            this.attestations[a.selfPtr] = a;
+        }
+        for (let vote of diff.latestVotes) {
+            if (vote.validatorIndex >= this.valCount || !this.attestations[vote.attestationPtr]) {
+                continue;
+            }
+            this.addVote(vote.validatorIndex, vote.attestationPtr);
+        }
+        for (let v of (diff.validators || [])) {
+            this.validators[v.validatorIndex] = v;
+        }
+
+        this.nextDiffIndex = diff.diffIndex + 1;
+        // a snapshot holds everything in memory, its state is the current one already
+        this.memory = reset ? diff.previous : memoryStateAfter(diff, this.limits);
+        this.notify(update);
+    }
+
+    private addVote(vi: ValidatorIndex, attPtr: AttestationPtr) {
+        const prev = this.lastVotes[vi] || [];
+        if (prev.indexOf(attPtr) >= 0) {
+            return;
+        }
+        const votes = [attPtr, ...prev].sort((a, b) => this.attestations[b].slot - this.attestations[a].slot);
+        for (let dropped of votes.slice(VOTES_MEMORY)) {
+            this.removeVoter(dropped, vi);
+        }
+        this.lastVotes[vi] = votes.slice(0, VOTES_MEMORY);
+        if (this.lastVotes[vi].indexOf(attPtr) >= 0) {
+            (this.voters[attPtr] = this.voters[attPtr] || []).push(vi);
+        }
+    }
+
+    private removeVoter(attPtr: AttestationPtr, vi: ValidatorIndex) {
+        const voters = this.voters[attPtr];
+        if (voters) {
+            this.voters[attPtr] = voters.filter(v => v !== vi);
+        }
+    }
+
+    // Remove a block that was evicted from the server memory, and unlink it from the tree.
+    private pruneBlock(blockPtr: BlockPtr, update: StoreUpdate) {
+        const entry = this.tree[blockPtr];
+        if (entry && entry.known) {
+            const parentEntry = this.tree[entry.parent];
+            if (parentEntry) {
+                parentEntry.children = parentEntry.children.filter(c => c !== blockPtr);
+                if (!parentEntry.known && parentEntry.children.length === 0) {
+                    delete this.tree[entry.parent];
+                }
+            }
+            for (let child of entry.children) {
+                const childEntry = this.tree[child];
+                if (childEntry) {
+                    childEntry.parent = PRUNED_PTR;
+                }
+            }
+            delete this.tree[blockPtr];
+        }
+        const block = this.blocks[blockPtr];
+        if (block) {
+            delete this.blocks[blockPtr];
+            update.prunedBlocks.push(block);
+        }
+    }
+
+    // The pointer may be reused by a newer block: references to the pruned block must not resolve to it.
+    // Finalized pointers are dropped, heads are kept for their other data, without a head block.
+    private dropBlockRefs(blockPtr: BlockPtr) {
+        this.finalized = this.finalized.filter(f => f !== blockPtr);
+        this.head = this.head.map(h => h.headBlock === blockPtr ? {...h, headBlock: PRUNED_PTR} : h);
+    }
+
+    // Remove an attestation that was evicted from the server memory, and the votes on it.
+    private pruneAttestation(attPtr: AttestationPtr, update: StoreUpdate) {
+        const att = this.attestations[attPtr];
+        if (!att) {
+            return;
+        }
+        for (let vi of (this.voters[attPtr] || [])) {
+            this.lastVotes[vi] = this.lastVotes[vi].filter(v => v !== attPtr);
+        }
+        delete this.voters[attPtr];
+        delete this.attestations[attPtr];
+        update.prunedAttestations.push(att);
+    }
+
+    // Make room for a new block: prune whatever occupies its position in the server ring buffer,
+    // or an older block with the same (reused) pointer. The same block sent again (e.g. in a resync) is replaced,
+    // but references to it stay valid.
+    private evictForBlock(b: BlockSummary, update: StoreUpdate) {
+        const blockPtr = b.selfPtr;
+        const pos = blockPtr % this.limits.blocks;
+        const prev = this.blockRing[pos];
+        if (prev !== undefined && prev !== blockPtr) {
+            this.pruneBlock(prev, update);
+            this.dropBlockRefs(prev);
+        }
+        const old = this.blocks[blockPtr];
+        if (old) {
+            this.pruneBlock(blockPtr, update);
+            if (old.htr !== b.htr) {
+                this.dropBlockRefs(blockPtr);
+            }
+        }
+        this.blockRing[pos] = blockPtr;
+    }
+
+    private evictForAttestation(attPtr: AttestationPtr, update: StoreUpdate) {
+        const pos = attPtr % this.limits.attestations;
+        const prev = this.attestationRing[pos];
+        if (prev !== undefined && prev !== attPtr) {
+            this.pruneAttestation(prev, update);
+        }
+        this.pruneAttestation(attPtr, update);
+        this.attestationRing[pos] = attPtr;
+    }
+
+    private addTreeBlock(b: BlockSummary) {
+        // a placeholder may already hold children that arrived before this block
+        const placeholder = this.tree[b.selfPtr];
+        const children: Array<BlockPtr> = [];
+        if (placeholder) {
+            for (let child of placeholder.children) {
+                const childEntry = this.tree[child];
+                if (childEntry && childEntry.slot > b.slot) {
+                    children.push(child);
+                } else if (childEntry) {
+                    // the child referenced an older block that used to have this pointer.
+                    childEntry.parent = PRUNED_PTR;
+                }
+            }
+        }
+        const entry: TreeEntry = {
+            parent: b.parent,
+            slot: b.slot,
+            children: children,
+            known: true,
+        };
+        this.tree[b.selfPtr] = entry;
+        const parentEntry = this.tree[b.parent];
+        if (parentEntry) {
+            if (parentEntry.known && parentEntry.slot >= b.slot) {
+                // the parent pointer was already reused by a newer block: the real parent is pruned.
+                entry.parent = PRUNED_PTR;
+            } else if (parentEntry.children.indexOf(b.selfPtr) < 0) {
+                parentEntry.children.push(b.selfPtr);
+            }
+        } else {
+            this.tree[b.parent] = {
+                parent: PRUNED_PTR,
+                slot: 0,
+                children: [b.selfPtr],
+                known: false,
+            };
+        }
+    }
+
+    latestHead(): HeadSummary | null {
+        return this.head.length > 0 ? this.head[this.head.length - 1] : null;
+    }
+
+    getBlock(blockPtr: BlockPtr): BlockSummary | null {
+        return this.blocks[blockPtr] || null;
+    }
+
+    latestCheckpoint(): FinalizedCheckpoint | null {
+        return this.checkpoints.length > 0 ? this.checkpoints[this.checkpoints.length - 1] : null;
+    }
+
+    // the finalized block of the checkpoint, null if it is no longer in memory or its pointer was reused
+    checkpointBlock(cp: FinalizedCheckpoint): BlockSummary | null {
+        const b = this.getBlock(cp.ptr);
+        return b !== null && cp.root !== null && b.htr === cp.root ? b : null;
+    }
+
+    // the parent block, if it is still in memory
+    getParent(blockPtr: BlockPtr): BlockSummary | null {
+        const entry = this.tree[blockPtr];
+        if (!entry || !entry.known) {
+            return null;
+        }
+        return this.getBlock(entry.parent);
+    }
+
+    getChildren(blockPtr: BlockPtr): Array<BlockSummary> {
+        const entry = this.tree[blockPtr];
+        if (!entry) {
+            return [];
+        }
+        const out: Array<BlockSummary> = [];
+        for (let child of entry.children) {
+            const b = this.blocks[child];
+            if (b) out.push(b);
+        }
+        return out;
+    }
+
+    // blocks from the given block (latest head by default) back to the oldest known ancestor, newest first.
+    canonicalChain(from?: BlockPtr): Array<BlockSummary> {
+        let ptr: BlockPtr;
+        if (from !== undefined) {
+            ptr = from;
+        } else {
+            const head = this.latestHead();
+            if (head === null) {
+                return [];
+            }
+            ptr = head.headBlock;
+        }
+        const chain: Array<BlockSummary> = [];
+        while (true) {
+            const b = this.blocks[ptr];
+            const entry = this.tree[ptr];
+            if (!b || !entry) {
+                break;
+            }
+            chain.push(b);
+            ptr = entry.parent;
+        }
+        return chain;
+    }
+
+    getAttestation(attPtr: AttestationPtr): AttestationSummary | null {
+        return this.attestations[attPtr] || null;
+    }
+
+    // attestations that have the block as source, target or head
+    attestationsFor(blockPtr: BlockPtr): Array<AttestationSummary> {
+        const out: Array<AttestationSummary> = [];
+        for (let a of Object.values(this.attestations)) {
+            if ((a.head === blockPtr || a.target === blockPtr || a.source === blockPtr)
+                && this.attestedBlock(a, blockPtr) !== null) {
+                out.push(a);
+            }
+        }
+        return out;
+    }
+
+    // The block at a pointer of the attestation (head, target or source).
+    // Null if it is not in memory, or if the pointer was reused by a block after the attestation slot:
+    // the block the attestation referred to was pruned.
+    attestedBlock(a: AttestationSummary, blockPtr: BlockPtr): BlockSummary | null {
+        const b = this.getBlock(blockPtr);
+        return b !== null && b.slot <= a.slot ? b : null;
+    }
+
+    // status and balance of the validator, null if the server did not send them
+    getValidator(vi: ValidatorIndex): ValidatorSummary | null {
+        return this.validators[vi] || null;
+    }
+
+    // latest votes of the validator, most recent first
+    votesOf(vi: ValidatorIndex): Array<AttestationSummary> {
+        const out: Array<AttestationSummary> = [];
+        for (let ptr of (this.lastVotes[vi] || [])) {
+            const att = this.attestations[ptr];
+            if (att) out.push(att);
+        }
+        return out;
+    }
+
+    // validators that have the attestation as one of their latest votes
+    votersOf(attPtr: AttestationPtr): Array<ValidatorIndex> {
+        return this.voters[attPtr] || [];
+    }
+}
@@ -0,0 +1,131 @@
+import {MemoryDiff, ResyncRequest} from "./protocol";
+import {DiffStatus, DiffSync, DiffTarget} from "./sync";
+
+const diff = (diffIndex: number): MemoryDiff => ({
+    diffIndex,
+    previous: {head: 0, finalized: 0, blocks: 0, attestations: 0, latestVotes: 0},
+    head: [],
+    finalized: [],
+    blocks: [],
+    attestations: [],
+    latestVotes: [],
+});
+
+// applies diffs by index only, and keeps the order they were applied in
+class FakeTarget implements DiffTarget {
+    nextDiffIndex: number | null = null;
+    applied: Array<number> = [];
+
+    applyDiff(diff: MemoryDiff): DiffStatus {
+        if (this.nextDiffIndex !== null && diff.diffIndex < this.nextDiffIndex) {
+            return 'too_old';
+        }
+        if (this.nextDiffIndex !== null && diff.diffIndex > this.nextDiffIndex) {
+            return 'too_new';
+        }
+        this.applied.push(diff.diffIndex);
+        this.nextDiffIndex = diff.diffIndex + 1;
+        return 'ok';
+    }
+
+    // what loading a snapshot of the given diff index does to the target
+    loadSnapshot(diffIndex: number) {
+        this.applied.push(diffIndex);
+        this.nextDiffIndex = diffIndex + 1;
+    }
+}
+
+const opts = {gapTimeout: 100, resyncTimeout: 1000, maxPending: 3};
+
+const setup = () => {
+    const target = new FakeTarget();
+    const requests: Array<ResyncRequest> = [];
+    const sync = new DiffSync(target, req => requests.push(req), opts);
+    return {target, requests, sync};
+};
+
+it('buffers diffs that arrive early, and applies them once the gap closes', () => {
+    const {target, requests, sync} = setup();
+    expect(sync.push(diff(0), 0)).toBe('ok');
+    expect(sync.push(diff(3), 10)).toBe('too_new');
+    expect(sync.push(diff(2), 20)).toBe('too_new');
+    expect(sync.pendingIndices()).toEqual([2, 3]);
+    expect(target.applied).toEqual([0]);
+
+    expect(sync.push(diff(1), 50)).toBe('ok');
+    expect(target.applied).toEqual([0, 1, 2, 3]);
+    expect(sync.pendingIndices()).toEqual([]);
+    expect(sync.gapSince).toBeNull();
+    sync.check(500);
+    expect(requests).toEqual([]);
+});
+
+it('requests the missing range once the gap is open for too long, and not again while waiting', () => {
+    const {requests, sync} = setup();
+    sync.push(diff(4), 0);
+    sync.push(diff(7), 10);
+    sync.push(diff(8), 20);
+    sync.check(90);
+    expect(requests).toEqual([]);
+    sync.check(110);
+    expect(requests).toEqual([{type: 'resync', from: 5, to: 6}]);
+
+    sync.check(500);
+    sync.push(diff(9), 600);
+    expect(requests.length).toBe(1);
+    // no response in time: ask again
+    sync.check(1110);
+    expect(requests).toEqual([{type: 'resync', from: 5, to: 6}, {type: 'resync', from: 5, to: 6}]);
+});
+
+it('requests a snapshot when too many diffs are buffered', () => {
+    const {requests, sync} = setup();
+    sync.push(diff(0), 0);
+    for (let i = 2; i <= 4; i++) {
+        sync.push(diff(i), i);
+    }
+    expect(requests).toEqual([]);
+    sync.push(diff(5), 5);
+    expect(requests).toEqual([{type: 'resync', from: null, to: null}]);
+    sync.push(diff(6), 6);
+    sync.check(500);
+    expect(requests.length).toBe(1);
+});
+
+it('drops the diffs that are stale after loading the snapshot, and applies the rest', () => {
+    const {target, requests, sync} = setup();
+    sync.push(diff(0), 0);
+    for (let i = 2; i <= 6; i++) {
+        sync.push(diff(i), i);
+    }
+    expect(requests).toEqual([{type: 'resync', from: null, to: null}]);
+
+    target.loadSnapshot(4);
+    sync.onResynced(100);
+    expect(target.applied).toEqual([0, 4, 5, 6]);
+    expect(sync.pendingIndices()).toEqual([]);
+    expect(sync.push(diff(3), 110)).toBe('too_old');
+    expect(sync.push(diff(7), 120)).toBe('ok');
+    sync.check(5000);
+    expect(requests.length).toBe(1);
+});
+
+it('repeats a snapshot request until the snapshot arrives, also without a gap', () => {
+    const {target, requests, sync} = setup();
+    sync.push(diff(0), 0);
+    sync.requestSnapshot(10);
+    // the stream continues in order while the request is lost
+    sync.push(diff(1), 20);
+    sync.check(500);
+    expect(requests).toEqual([{type: 'resync', from: null, to: null}]);
+    sync.check(1010);
+    sync.check(1500);
+    expect(requests.length).toBe(2);
+    sync.check(2010);
+    expect(requests.length).toBe(3);
+
+    target.loadSnapshot(1);
+    sync.onResynced(2100);
+    sync.check(5000);
+    expect(requests.length).toBe(3);
+});
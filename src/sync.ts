@@ -0,0 +1,135 @@
+import {MemoryDiff, ResyncRequest} from "./protocol";
+
+export type DiffStatus = 'too_old' | 'ok' | 'too_new';
+
+// Anything that applies diffs in order, and tracks which diff it expects next.
+export interface DiffTarget {
+    nextDiffIndex: number | null;
+    applyDiff(diff: MemoryDiff): DiffStatus;
+}
+
+export type DiffSyncOptions = {
+    // ms to wait for a gap to close by itself before requesting a resync
+    gapTimeout: number;
+    // ms to wait for a response to a resync request before asking again
+    resyncTimeout: number;
+    // when more diffs than this are buffered, ask for a full snapshot instead of the missing range
+    maxPending: number;
+}
+
+export const defaultDiffSyncOptions: DiffSyncOptions = {
+    gapTimeout: 2000,
+    resyncTimeout: 5000,
+    maxPending: 64,
+};
+
+// Puts diffs in order before applying them to the target:
+// stale diffs are dropped, early diffs are buffered until the gap before them is filled,
+// and a resync is requested when a gap does not close in time.
+// A snapshot request is repeated until the snapshot arrives, even without a gap.
+export class DiffSync {
+    target: DiffTarget;
+    requestResync: (req: ResyncRequest) => void;
+    opts: DiffSyncOptions;
+
+    // early diffs, by diff index
+    pending: Record<number, MemoryDiff> = {};
+    // time the current gap was first noticed
+    gapSince: number | null = null;
+    // time of the last resync request, if still unanswered
+    resyncRequestedAt: number | null = null;
+    // time of the last snapshot request, until onResynced. Kept apart from range requests,
+    // the stream can be without gaps while the snapshot is still needed.
+    snapshotRequestedAt: number | null = null;
+
+    constructor(target: DiffTarget, requestResync: (req: ResyncRequest) => void, opts: DiffSyncOptions = defaultDiffSyncOptions) {
+        this.target = target;
+        this.requestResync = requestResync;
+        this.opts = opts;
+    }
+
+    pendingIndices(): Array<number> {
+        return Object.keys(this.pending).map(Number).sort((a, b) => a - b);
+    }
+
+    push(diff: MemoryDiff, now: number = Date.now()): DiffStatus {
+        const status = this.target.applyDiff(diff);
+        switch (status) {
+            case 'too_old':
+                // e.g. diffs that the snapshot already includes
+                break;
+            case 'too_new':
+                this.pending[diff.diffIndex] = diff;
+                break;
+            case 'ok':
+                this.drain();
+                break;
+        }
+        this.check(now);
+        return status;
+    }
+
+    // apply buffered diffs for as long as they line up with the target
+    drain() {
+        for (let index of this.pendingIndices()) {
+            const status = this.target.applyDiff(this.pending[index]);
+            if (status === 'too_new') {
+                break;
+            }
+            delete this.pending[index];
+        }
+    }
+
+    // Call after the target was rebuilt from a snapshot: drop what is now stale, apply what lines up.
+    onResynced(now: number = Date.now()) {
+        this.resyncRequestedAt = null;
+        this.snapshotRequestedAt = null;
+        this.drain();
+        this.gapSince = null;
+        this.check(now);
+    }
+
+    // Checks if the current gap, if any, needs a resync, and if an unanswered snapshot request needs to be sent again.
+    // Call periodically to detect gaps in a quiet stream.
+    check(now: number = Date.now()) {
+        if (this.snapshotRequestedAt !== null) {
+            // the snapshot covers any gap
+            if (now - this.snapshotRequestedAt >= this.opts.resyncTimeout) {
+                this.requestSnapshot(now);
+            }
+            return;
+        }
+        const indices = this.pendingIndices();
+        if (indices.length === 0) {
+            this.gapSince = null;
+            this.resyncRequestedAt = null;
+            return;
+        }
+        if (this.gapSince === null) {
+            this.gapSince = now;
+        }
+        if (this.resyncRequestedAt !== null && now - this.resyncRequestedAt < this.opts.resyncTimeout) {
+            return;
+        }
+        const next = this.target.nextDiffIndex;
+        if (next === null || indices.length > this.opts.maxPending) {
+            this.requestSnapshot(now);
+        } else if (now - this.gapSince >= this.opts.gapTimeout) {
+            this.resyncRequestedAt = now;
+            this.requestResync({type: 'resync', from: next, to: indices[0] - 1});
+        }
+    }
+
+    // Ask for a full snapshot, e.g. after a reconnect lost the diffs in between.
+    requestSnapshot(now: number = Date.now()) {
+        this.snapshotRequestedAt = now;
+        this.requestResync({type: 'resync', from: null, to: null});
+    }
+
+    reset() {
+        this.pending = {};
+        this.gapSince = null;
+        this.resyncRequestedAt = null;
+        this.snapshotRequestedAt = null;
+    }
+}
@@ -0,0 +1,63 @@
+import {ChainStore} from "./store";
+import {ChainSimulator} from "./simulator";
+import {SLOTS_PER_EPOCH} from "./chain";
+import {ValidatorColors, legends} from "./validatorColors";
+import {CanonicalView} from "./votes";
+
+const simulated = (): ChainStore => {
+    const sim = new ChainSimulator({seed: 11, slashingRate: 1, exitRate: 1});
+    const store = new ChainStore();
+    for (let i = 0; i < SLOTS_PER_EPOCH * 4; i++) {
+        store.applyDiff(sim.next());
+    }
+    return store;
+};
+
+it('colors every validator with a color from the legend of the mode', () => {
+    const store = simulated();
+    for (let mode of ['recency', 'correctness', 'status', 'balance'] as const) {
+        const colors = new ValidatorColors(store, mode);
+        const legendColors = legends[mode].map(e => e.color);
+        for (let vi = 0; vi < store.valCount; vi++) {
+            expect(legendColors).toContain(colors.color(vi));
+        }
+    }
+});
+
+it('keeps the status of validators, and fades the withdrawable ones', () => {
+    const store = simulated();
+    const statuses = Object.values(store.validators).map(v => v.status);
+    expect(statuses).toContain('slashed');
+    expect(statuses).toContain('withdrawable');
+    const colors = new ValidatorColors(store, 'status');
+    for (let v of Object.values(store.validators)) {
+        expect(colors.faded(v.validatorIndex)).toBe(v.status === 'withdrawable');
+    }
+});
+
+it('colors votes the same way as the committee matrix, and pruned targets as unknown', () => {
+    const limits = {heads: 8, finalized: 4, blocks: 24, attestations: 512, latestVotes: 1024};
+    const sim = new ChainSimulator({seed: 4, limits});
+    const store = new ChainStore(limits);
+    for (let i = 0; i < SLOTS_PER_EPOCH * 3; i++) {
+        store.applyDiff(sim.next());
+    }
+    const colors = new ValidatorColors(store, 'correctness');
+    const [good, wrongHead, wrongTarget, unknown] = legends.correctness.map(e => e.color);
+    const view = new CanonicalView(store);
+    let unknownTargets = 0;
+    for (let vi = 0; vi < store.valCount; vi++) {
+        const votes = store.votesOf(vi);
+        if (votes.length === 0) {
+            expect(colors.color(vi)).toBe(unknown);
+            continue;
+        }
+        const c = view.classify(store, votes[0]);
+        const expected = c.target === 'unknown' ? unknown : c.target === 'incorrect' ? wrongTarget
+            : c.head === 'correct' ? good : wrongHead;
+        expect(colors.color(vi)).toBe(expected);
+        if (c.target === 'unknown') unknownTargets++;
+    }
+    // the memory holds less than an epoch of blocks, so some targets are before the known chain
+    expect(unknownTargets).toBeGreaterThan(0);
+});
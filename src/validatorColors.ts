@@ -0,0 +1,143 @@
+import {Gwei, ValidatorIndex, ValidatorStatus} from "./protocol";
+import {ChainStore} from "./store";
+import {GWEI_PER_ETH, SLOTS_PER_EPOCH} from "./chain";
+import {CanonicalView} from "./votes";
+
+export type ValidatorColorMode = 'recency' | 'correctness' | 'status' | 'balance';
+
+export const colorModes: Array<{mode: ValidatorColorMode, label: string}> = [
+    {mode: 'recency', label: "Last vote"},
+    {mode: 'correctness', label: "Vote correctness"},
+    {mode: 'status', label: "Status"},
+    {mode: 'balance', label: "Effective balance"},
+];
+
+export type LegendEntry = {
+    color: number;
+    label: string;
+}
+
+const UNKNOWN_COLOR = 0x555555;
+const GOOD_COLOR = 0x43a047;
+const OK_COLOR = 0xc0ca33;
+const WARN_COLOR = 0xfdd835;
+const BAD_COLOR = 0xfb8c00;
+const FAIL_COLOR = 0xe53935;
+
+const statusColors: Record<ValidatorStatus, number> = {
+    pending: 0x90a4ae,
+    active: GOOD_COLOR,
+    slashed: FAIL_COLOR,
+    exiting: BAD_COLOR,
+    withdrawable: 0x5c6bc0,
+};
+
+// lower bounds of the effective balance buckets, highest first
+const balanceBuckets: Array<{min: Gwei, color: number}> = [
+    {min: 32 * GWEI_PER_ETH, color: GOOD_COLOR},
+    {min: 31 * GWEI_PER_ETH, color: OK_COLOR},
+    {min: 28 * GWEI_PER_ETH, color: WARN_COLOR},
+    {min: 24 * GWEI_PER_ETH, color: BAD_COLOR},
+    {min: 0, color: FAIL_COLOR},
+];
+
+export const legends: Record<ValidatorColorMode, Array<LegendEntry>> = {
+    recency: [
+        {color: GOOD_COLOR, label: "within 1 epoch"},
+        {color: WARN_COLOR, label: "within 2 epochs"},
+        {color: BAD_COLOR, label: "older"},
+        {color: UNKNOWN_COLOR, label: "no known vote"},
+    ],
+    correctness: [
+        {color: GOOD_COLOR, label: "canonical head and target"},
+        {color: WARN_COLOR, label: "wrong head"},
+        {color: FAIL_COLOR, label: "wrong target"},
+        {color: UNKNOWN_COLOR, label: "no known vote, or too old to tell"},
+    ],
+    status: [
+        ...(Object.keys(statusColors) as Array<ValidatorStatus>).map(s => ({color: statusColors[s], label: s})),
+        {color: UNKNOWN_COLOR, label: "unknown"},
+    ],
+    balance: [
+        ...balanceBuckets.map((b, i) => ({
+            color: b.color,
+            label: i === 0 ? `≥ ${b.min / GWEI_PER_ETH} ETH` : `< ${balanceBuckets[i - 1].min / GWEI_PER_ETH} ETH`,
+        })),
+        {color: UNKNOWN_COLOR, label: "unknown"},
+    ],
+};
+
+// Computes the colors of validators in the grid. Create a new one for every store update.
+export class ValidatorColors {
+    store: ChainStore;
+    mode: ValidatorColorMode;
+    // to check votes against, the same way as the committee matrix
+    view: CanonicalView;
+
+    constructor(store: ChainStore, mode: ValidatorColorMode) {
+        this.store = store;
+        this.mode = mode;
+        this.view = new CanonicalView(store);
+    }
+
+    color(vi: ValidatorIndex): number {
+        switch (this.mode) {
+            case 'recency':
+                return this.recency(vi);
+            case 'correctness':
+                return this.correctness(vi);
+            case 'status': {
+                const v = this.store.getValidator(vi);
+                return v === null ? UNKNOWN_COLOR : statusColors[v.status];
+            }
+            case 'balance': {
+                const v = this.store.getValidator(vi);
+                if (v === null) {
+                    return UNKNOWN_COLOR;
+                }
+                const bucket = balanceBuckets.find(b => v.effectiveBalance >= b.min);
+                return bucket ? bucket.color : UNKNOWN_COLOR;
+            }
+        }
+    }
+
+    // validators that do not take part in the chain (anymore) are faded out
+    faded(vi: ValidatorIndex): boolean {
+        const v = this.store.getValidator(vi);
+        return v !== null && (v.status === 'pending' || v.status === 'withdrawable');
+    }
+
+    private recency(vi: ValidatorIndex): number {
+        const head = this.store.latestHead();
+        const votes = this.store.votesOf(vi);
+        if (head === null || votes.length === 0) {
+            return UNKNOWN_COLOR;
+        }
+        const age = head.slot - votes[0].slot;
+        if (age < SLOTS_PER_EPOCH) {
+            return GOOD_COLOR;
+        }
+        if (age < 2 * SLOTS_PER_EPOCH) {
+            return WARN_COLOR;
+        }
+        return BAD_COLOR;
+    }
+
+    private correctness(vi: ValidatorIndex): number {
+        const votes = this.store.votesOf(vi);
+        if (votes.length === 0) {
+            return UNKNOWN_COLOR;
+        }
+        const c = this.view.classify(this.store, votes[0]);
+        if (c.target === 'unknown') {
+            return UNKNOWN_COLOR;
+        }
+        if (c.target === 'incorrect') {
+            return FAIL_COLOR;
+        }
+        return c.head === 'correct' ? GOOD_COLOR : WARN_COLOR;
+    }
+}
+
+// CSS color of a PIXI color number
+export const cssColor = (color: number): string => "#" + color.toString(16).padStart(6, "0");
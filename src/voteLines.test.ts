@@ -0,0 +1,37 @@
+import {ChainStore} from "./store";
+import {ChainSimulator} from "./simulator";
+import {MAX_VOTE_LINE_VALIDATORS, voteLineIncludes, voteLineValidators} from "./voteLines";
+
+const simulated = (): ChainStore => {
+    const sim = new ChainSimulator({seed: 13});
+    const store = new ChainStore();
+    for (let i = 0; i < 40; i++) {
+        store.applyDiff(sim.next());
+    }
+    return store;
+};
+
+it('draws no lines when off, and only focused validators with the focus filter', () => {
+    const store = simulated();
+    expect(voteLineValidators({kind: 'off'}, store, [1, 2])).toEqual([]);
+    expect(voteLineValidators({kind: 'focus'}, store, [5, 2, 5])).toEqual([2, 5]);
+});
+
+it('clamps index ranges to the validator set', () => {
+    const store = simulated();
+    expect(voteLineValidators({kind: 'range', from: 3, to: 6}, store, [])).toEqual([3, 4, 5, 6]);
+    const all = voteLineValidators({kind: 'range', from: 0, to: 1e9}, store, []);
+    expect(all.length).toBe(Math.min(store.valCount, MAX_VOTE_LINE_VALIDATORS));
+});
+
+it('selects the voters of a committee, and only their votes in that committee', () => {
+    const store = simulated();
+    const filter = {kind: 'committee' as const, commIndex: 2};
+    const validators = voteLineValidators(filter, store, []);
+    expect(validators.length).toBeGreaterThan(0);
+    for (let vi of validators) {
+        const included = store.votesOf(vi).filter(a => voteLineIncludes(filter, a));
+        expect(included.length).toBeGreaterThan(0);
+        expect(included.every(a => a.commIndex === 2)).toBe(true);
+    }
+});
@@ -0,0 +1,52 @@
+import {AttestationSummary, CommitteeIndex, ValidatorIndex} from "./protocol";
+import {ChainStore} from "./store";
+
+// Which validator votes to draw lines for. Lines for all validators at once are unreadable.
+export type VoteLineFilter = {kind: 'off'}
+    // the hovered and selected validators
+    | {kind: 'focus'}
+    // validators in the index range, inclusive
+    | {kind: 'range', from: ValidatorIndex, to: ValidatorIndex}
+    // votes that were part of an attestation of the committee
+    | {kind: 'committee', commIndex: CommitteeIndex};
+
+export const defaultVoteLineFilter: VoteLineFilter = {kind: 'focus'};
+
+// upper bound on the validators to draw lines for, to keep redraws fast
+export const MAX_VOTE_LINE_VALIDATORS = 2000;
+
+// Validators to draw vote lines for, in index order.
+export const voteLineValidators = (filter: VoteLineFilter, store: ChainStore, focused: Array<ValidatorIndex>): Array<ValidatorIndex> => {
+    let out: Array<ValidatorIndex> = [];
+    switch (filter.kind) {
+        case 'off':
+            return [];
+        case 'focus':
+            out = focused.filter((vi, i) => focused.indexOf(vi) === i);
+            break;
+        case 'range':
+            for (let vi = Math.max(0, filter.from); vi <= Math.min(filter.to, store.valCount - 1); vi++) {
+                out.push(vi);
+                if (out.length >= MAX_VOTE_LINE_VALIDATORS) break;
+            }
+            return out;
+        case 'committee': {
+            const seen: Record<ValidatorIndex, boolean> = {};
+            for (let att of Object.values(store.attestations)) {
+                if (att.commIndex !== filter.commIndex) {
+                    continue;
+                }
+                for (let vi of store.votersOf(att.selfPtr)) {
+                    seen[vi] = true;
+                }
+            }
+            out = Object.keys(seen).map(Number);
+            break;
+        }
+    }
+    return out.sort((a, b) => a - b).slice(0, MAX_VOTE_LINE_VALIDATORS);
+};
+
+// true if the line for a vote on the attestation passes the filter
+export const voteLineIncludes = (filter: VoteLineFilter, att: AttestationSummary): boolean =>
+    filter.kind !== 'committee' || att.commIndex === filter.commIndex;
@@ -0,0 +1,55 @@
+import {AttestationSummary, BlockPtr, Slot} from "./protocol";
+import {ChainStore} from "./store";
+import {epochStartSlot, slotToEpoch} from "./chain";
+
+// unknown when the client does not have the blocks to tell, e.g. after they were pruned.
+export type VoteCorrectness = 'correct' | 'incorrect' | 'unknown';
+
+export type VoteClassification = {
+    head: VoteCorrectness;
+    target: VoteCorrectness;
+    source: VoteCorrectness;
+}
+
+// The canonical chain of the latest head, to check votes against.
+export class CanonicalView {
+    // canonical blocks, newest first
+    chain: Array<{ptr: BlockPtr, slot: Slot}>;
+    members: Record<BlockPtr, boolean> = {};
+
+    constructor(store: ChainStore) {
+        this.chain = store.canonicalChain().map(b => ({ptr: b.selfPtr, slot: b.slot}));
+        for (let b of this.chain) {
+            this.members[b.ptr] = true;
+        }
+    }
+
+    // The canonical block at the slot: the block of the slot, or the latest block before it if the slot is empty.
+    // Null if the known chain does not reach back to the slot.
+    blockAt(slot: Slot): BlockPtr | null {
+        for (let b of this.chain) {
+            if (b.slot <= slot) {
+                return b.ptr;
+            }
+        }
+        return null;
+    }
+
+    // Classify the head, target and source votes of the attestation.
+    // The head should be the canonical block at the attestation slot, the target the canonical block at the
+    // start of its epoch, and the source a canonical block no newer than the target.
+    classify(store: ChainStore, att: AttestationSummary): VoteClassification {
+        const check = (expected: BlockPtr | null, actual: BlockPtr): VoteCorrectness =>
+            expected === null ? 'unknown' : (expected === actual ? 'correct' : 'incorrect');
+        const head = check(this.blockAt(att.slot), att.head);
+        const target = check(this.blockAt(epochStartSlot(slotToEpoch(att.slot))), att.target);
+        let source: VoteCorrectness = 'unknown';
+        const sourceBlock = store.getBlock(att.source);
+        const targetBlock = store.getBlock(att.target);
+        if (sourceBlock !== null) {
+            const ordered = targetBlock === null || sourceBlock.slot <= targetBlock.slot;
+            source = this.members[att.source] && ordered ? 'correct' : 'incorrect';
+        }
+        return {head, target, source};
+    }
+}